@@ -0,0 +1,8 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  // Other files in __tests__ folders are shared helpers
+  testMatch: ['**/__tests__/**/*.test.ts'],
+};
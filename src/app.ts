@@ -1,10 +1,25 @@
 import cors from 'cors';
 import dotenv from 'dotenv';
-import express, { NextFunction, Request, Response } from 'express';
+import express, { Request, Response } from 'express';
 import morgan from 'morgan';
 import connectDB from './config/database';
 import { authenticateUser, AuthRequest } from './middleware/auth';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import plantRoutes from './routes/plantRoutes';
+import scheduleRoutes from './routes/scheduleRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import photoRoutes from './routes/photoRoutes';
+import fileRoutes from './routes/fileRoutes';
+import statsRoutes from './routes/statsRoutes';
+import profileRoutes from './routes/profileRoutes';
+import spaceRoutes from './routes/spaceRoutes';
+import catalogRoutes from './routes/catalogRoutes';
+import jobRoutes from './routes/jobRoutes';
+import { startReminderWorker } from './workers/reminderWorker';
+import { startWeatherWorker } from './workers/weatherWorker';
+import { startJobWorker } from './workers/jobWorker';
+import { seedSpecies } from './services/catalog';
+import { getStorage } from './services/storage';
 import { analyzePlantImage } from './controllers/plantController';
 import router from './routes/plantRoutes';
 
@@ -19,6 +34,20 @@ connectDB().catch(err => {
   process.exit(1);
 });
 
+// Resolve the storage driver now so a missing setting such as
+// STORAGE_SIGNING_SECRET stops startup instead of failing the first upload
+try {
+  getStorage();
+} catch (err) {
+  console.error('Storage configuration error:', err);
+  process.exit(1);
+}
+
+// Keep the species catalog in step with the bundled dataset
+seedSpecies()
+  .then(count => console.log(`Species catalog seeded with ${count} records`))
+  .catch(err => console.error('Species catalog seeding failed:', err));
+
 // Middleware
 app.use(cors());
 app.use(express.json({ limit: '50mb' }));
@@ -29,10 +58,19 @@ app.use(morgan('dev'));
 app.get('/', (req: Request, res: Response) => {
   res.json({ message: 'Welcome to EnsoGrow Service API' });
 });
+app.use('/files', fileRoutes);
 
 // Protected routes
 app.use('/api', authenticateUser);
+app.use('/api/me', profileRoutes);
 app.use('/api/plants', plantRoutes);
+app.use('/api/schedule', scheduleRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/photos', photoRoutes);
+app.use('/api/stats', statsRoutes);
+app.use('/api/spaces', spaceRoutes);
+app.use('/api/catalog', catalogRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // Example protected route
 app.get('/api/protected', (req: AuthRequest, res: Response) => {
@@ -42,16 +80,18 @@ app.get('/api/protected', (req: AuthRequest, res: Response) => {
   });
 });
 
-// Error handling middleware
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error(err.stack);
-  res.status(500).json({ message: 'Something went wrong!' });
-});
+// Unmatched routes and every error thrown by a route end up here; see the
+// README for the response envelope
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 // Start server
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
+  startReminderWorker();
+  startWeatherWorker();
+  startJobWorker();
 });
 
 export default app; 
\ No newline at end of file
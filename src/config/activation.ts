@@ -0,0 +1,20 @@
+import dotenv from "dotenv";
+import { parsePositiveNumber } from "./env";
+
+dotenv.config();
+
+export interface ActivationConfig {
+  // Block activation when the compatibility check has warnings, instead of
+  // only reporting them. Requests can also opt in with `strict: true`.
+  strict: boolean;
+  // Space assumed for plants missing from the companion table
+  defaultFootprintSqM: number;
+}
+
+export const getActivationConfig = (): ActivationConfig => ({
+  strict: process.env.STRICT_ACTIVATION_CHECKS === "true",
+  defaultFootprintSqM: parsePositiveNumber(
+    process.env.DEFAULT_PLANT_FOOTPRINT_SQM,
+    0.1
+  ),
+});
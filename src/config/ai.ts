@@ -0,0 +1,37 @@
+import dotenv from "dotenv";
+import { parseNonNegativeInt } from "./env";
+
+dotenv.config();
+
+export type AIProviderName = "gemini" | "stub";
+
+export interface AIConfig {
+  provider: AIProviderName;
+  model: string;
+  apiKey?: string;
+  // Corrective re-prompts allowed after a response fails validation
+  maxRepairAttempts: number;
+}
+
+const DEFAULT_MODEL = "gemini-2.0-flash";
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// Resolve which AI backend to use for the current environment.
+// AI_PROVIDER=stub runs the service fully offline against bundled fixtures.
+export const getAIConfig = (): AIConfig => {
+  const requested = (process.env.AI_PROVIDER || "").toLowerCase();
+  const provider: AIProviderName =
+    requested === "stub" || (!requested && process.env.NODE_ENV === "test")
+      ? "stub"
+      : "gemini";
+
+  return {
+    provider,
+    model: process.env.AI_MODEL || DEFAULT_MODEL,
+    apiKey: process.env.GEMINI_API_KEY,
+    maxRepairAttempts: parseNonNegativeInt(
+      process.env.AI_MAX_REPAIR_ATTEMPTS,
+      DEFAULT_MAX_REPAIR_ATTEMPTS
+    ),
+  };
+};
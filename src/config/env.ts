@@ -0,0 +1,28 @@
+// Number parsing shared by the config modules and query strings. Anything
+// that does not parse, or is out of range, falls back to the default.
+
+export const parseNonNegativeInt = (
+  value: unknown,
+  fallback: number
+): number => {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const parsePositiveInt = (value: unknown, fallback: number): number => {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const parsePositiveNumber = (
+  value: unknown,
+  fallback: number
+): number => {
+  const parsed = Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const parseNumber = (value: unknown, fallback: number): number => {
+  const parsed = Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
@@ -0,0 +1,29 @@
+import dotenv from "dotenv";
+import { parsePositiveInt } from "./env";
+
+dotenv.config();
+
+export interface JobConfig {
+  workerEnabled: boolean;
+  // How often an idle worker looks for queued jobs
+  pollIntervalMs: number;
+  maxAttempts: number;
+  // Delay before the first retry; doubles with each further attempt
+  backoffSeconds: number;
+  maxBackoffSeconds: number;
+  // A running job not heard from for this long is assumed lost, e.g. to a
+  // restart, and is queued again
+  lockTimeoutMinutes: number;
+}
+
+export const getJobConfig = (): JobConfig => ({
+  workerEnabled: process.env.JOB_WORKER_ENABLED !== "false",
+  pollIntervalMs: parsePositiveInt(process.env.JOB_POLL_INTERVAL_MS, 2000),
+  maxAttempts: parsePositiveInt(process.env.JOB_MAX_ATTEMPTS, 3),
+  backoffSeconds: parsePositiveInt(process.env.JOB_BACKOFF_SECONDS, 30),
+  maxBackoffSeconds: parsePositiveInt(process.env.JOB_MAX_BACKOFF_SECONDS, 600),
+  lockTimeoutMinutes: parsePositiveInt(
+    process.env.JOB_LOCK_TIMEOUT_MINUTES,
+    10
+  ),
+});
@@ -0,0 +1,33 @@
+import dotenv from "dotenv";
+import { parsePositiveInt } from "./env";
+
+dotenv.config();
+
+export type NotificationTransport = "fcm" | "memory";
+
+export interface NotificationConfig {
+  transport: NotificationTransport;
+  remindersEnabled: boolean;
+  // How often the reminder worker sweeps for due care steps
+  intervalMinutes: number;
+  // Days after a diagnosis that needed treatment before a follow-up is due
+  followUpDays: number;
+}
+
+export const getNotificationConfig = (): NotificationConfig => {
+  const requested = (process.env.NOTIFICATION_TRANSPORT || "").toLowerCase();
+
+  return {
+    transport:
+      requested === "memory" ||
+      (!requested && process.env.NODE_ENV === "test")
+        ? "memory"
+        : "fcm",
+    remindersEnabled: process.env.REMINDERS_ENABLED !== "false",
+    intervalMinutes: parsePositiveInt(
+      process.env.REMINDER_INTERVAL_MINUTES,
+      60
+    ),
+    followUpDays: parsePositiveInt(process.env.DIAGNOSIS_FOLLOW_UP_DAYS, 7),
+  };
+};
@@ -0,0 +1,20 @@
+import dotenv from "dotenv";
+import { parsePositiveInt } from "./env";
+
+dotenv.config();
+
+export interface RecommendationConfig {
+  // How long generated recommendations are reused for matching conditions
+  cacheTtlHours: number;
+  // Extra time template plants outlive their cache entry, so a list a user
+  // is looking at can still be activated just after it expires
+  templateGraceHours: number;
+}
+
+export const getRecommendationConfig = (): RecommendationConfig => ({
+  cacheTtlHours: parsePositiveInt(
+    process.env.RECOMMENDATION_CACHE_TTL_HOURS,
+    24 * 7
+  ),
+  templateGraceHours: 24,
+});
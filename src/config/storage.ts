@@ -0,0 +1,34 @@
+import dotenv from "dotenv";
+import path from "path";
+import { parsePositiveInt } from "./env";
+
+dotenv.config();
+
+export type StorageDriverName = "local" | "bucket";
+
+export interface StorageConfig {
+  driver: StorageDriverName;
+  // Local driver
+  localDir: string;
+  publicBaseUrl: string;
+  signingSecret: string;
+  // Bucket driver; defaults to the Firebase project's bucket when unset
+  bucket?: string;
+  // Lifetime of signed image URLs
+  signedUrlTtlSeconds: number;
+}
+
+export const getStorageConfig = (): StorageConfig => ({
+  driver: process.env.STORAGE_DRIVER === "bucket" ? "bucket" : "local",
+  localDir: path.resolve(process.env.STORAGE_DIR || "uploads"),
+  publicBaseUrl: (
+    process.env.PUBLIC_BASE_URL ||
+    `http://localhost:${process.env.PORT || 3000}`
+  ).replace(/\/$/, ""),
+  signingSecret: process.env.STORAGE_SIGNING_SECRET || "",
+  bucket: process.env.STORAGE_BUCKET,
+  signedUrlTtlSeconds: parsePositiveInt(
+    process.env.SIGNED_URL_TTL_SECONDS,
+    60 * 60
+  ),
+});
@@ -0,0 +1,43 @@
+import dotenv from "dotenv";
+import { parseNumber, parsePositiveInt } from "./env";
+
+dotenv.config();
+
+export type WeatherProviderName = "http" | "file";
+
+export interface WeatherConfig {
+  provider: WeatherProviderName;
+  // HTTP provider; any Open-Meteo compatible forecast endpoint
+  apiUrl: string;
+  // File provider; the bundled fixture is used when unset
+  stubFile?: string;
+  adjustmentsEnabled: boolean;
+  // Days of forecast checked by the daily job
+  forecastDays: number;
+  // Rain within a day of a watering step's due day that makes it skippable
+  rainThresholdMm: number;
+  // Forecast low at or below which plants should be protected
+  frostThresholdC: number;
+}
+
+const DEFAULT_API_URL = "https://api.open-meteo.com/v1/forecast";
+
+export const getWeatherConfig = (): WeatherConfig => {
+  const requested = (process.env.WEATHER_PROVIDER || "").toLowerCase();
+
+  return {
+    provider:
+      requested === "file" || (!requested && process.env.NODE_ENV === "test")
+        ? "file"
+        : "http",
+    apiUrl: process.env.WEATHER_API_URL || DEFAULT_API_URL,
+    stubFile: process.env.WEATHER_STUB_FILE || undefined,
+    adjustmentsEnabled: process.env.WEATHER_ADJUSTMENTS_ENABLED !== "false",
+    forecastDays: Math.min(
+      parsePositiveInt(process.env.WEATHER_FORECAST_DAYS, 3),
+      16
+    ),
+    rainThresholdMm: parseNumber(process.env.WEATHER_RAIN_THRESHOLD_MM, 5),
+    frostThresholdC: parseNumber(process.env.WEATHER_FROST_THRESHOLD_C, 2),
+  };
+};
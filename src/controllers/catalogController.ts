@@ -0,0 +1,100 @@
+import { Response } from "express";
+import { FilterQuery } from "mongoose";
+import { parsePositiveInt } from "../config/env";
+import { NotFoundError, ValidationError } from "../errors";
+import { AuthRequest } from "../middleware/auth";
+import Species, {
+  ISpecies,
+  SUN_REQUIREMENTS,
+  SunRequirement,
+  WATER_NEEDS,
+  WaterNeeds,
+} from "../models/Species";
+import { normaliseName } from "../services/catalog";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Search the species catalog by name, alias or scientific name, optionally
+// filtered by sun and water needs
+export const searchCatalog = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const { q, sun, water } = req.query;
+
+  if (sun !== undefined && !SUN_REQUIREMENTS.includes(sun as SunRequirement)) {
+    throw new ValidationError("Invalid sun filter", {
+      allowed: SUN_REQUIREMENTS,
+    });
+  }
+  if (water !== undefined && !WATER_NEEDS.includes(water as WaterNeeds)) {
+    throw new ValidationError("Invalid water filter", {
+      allowed: WATER_NEEDS,
+    });
+  }
+
+  const filter: FilterQuery<ISpecies> = {};
+  const query = normaliseName(String(q ?? ""));
+  if (query) {
+    // Match the start of any word in a name or alias
+    const pattern = new RegExp(`(^|\\s)${escapeRegExp(query)}`);
+    filter.$or = [
+      { searchTerms: pattern },
+      { scientificName: new RegExp(escapeRegExp(String(q).trim()), "i") },
+    ];
+  }
+  if (sun !== undefined) {
+    filter.sunRequirement = sun;
+  }
+  if (water !== undefined) {
+    filter.waterNeeds = water;
+  }
+
+  const page = parsePositiveInt(req.query.page, 1);
+  const limit = Math.min(
+    parsePositiveInt(req.query.limit, DEFAULT_PAGE_SIZE),
+    MAX_PAGE_SIZE
+  );
+
+  const [species, total] = await Promise.all([
+    Species.find(filter)
+      .select("-searchTerms")
+      .sort({ commonName: 1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Species.countDocuments(filter),
+  ]);
+
+  res.status(200).json({
+    message: "Catalog retrieved successfully",
+    data: species,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+};
+
+export const getSpecies = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const species = await Species.findOne({
+    slug: String(req.params.slug),
+  }).select("-searchTerms");
+
+  if (!species) {
+    throw new NotFoundError("Species not found");
+  }
+
+  res.status(200).json({
+    message: "Species retrieved successfully",
+    data: species,
+  });
+};
@@ -0,0 +1,90 @@
+import { Response } from "express";
+import { ConflictError, NotFoundError } from "../errors";
+import { ValidatedRequest } from "../middleware/validate";
+import {
+  applyProposal,
+  askPlantAssistant,
+  findProposalMessage,
+  getChatThread,
+} from "../services/chat";
+import { plantRequests } from "../validation/plants";
+import { loadOwnedPlant } from "./ownership";
+
+// Latest messages of the plant's thread, oldest first
+export const getPlantChat = async (
+  req: ValidatedRequest<typeof plantRequests.chatThread>,
+  res: Response
+): Promise<void> => {
+  const { user, plant } = await loadOwnedPlant(req, "view");
+
+  const messages = await getChatThread(user, plant, req.query.limit);
+
+  res.status(200).json({
+    message: "Chat thread retrieved successfully",
+    data: messages,
+  });
+};
+
+export const sendPlantChatMessage = async (
+  req: ValidatedRequest<typeof plantRequests.sendChatMessage>,
+  res: Response
+): Promise<void> => {
+  const { user, plant } = await loadOwnedPlant(req, "view");
+
+  const exchange = await askPlantAssistant(user, plant, req.body.message);
+
+  res.status(201).json({
+    message: "Reply generated successfully",
+    data: exchange,
+  });
+};
+
+// Confirm ("applied") or dismiss a step change the assistant proposed.
+// Only confirmed proposals touch the plant's steps.
+export const resolveChatProposal = async (
+  req: ValidatedRequest<typeof plantRequests.resolveChatProposal>,
+  res: Response
+): Promise<void> => {
+  const { status } = req.body;
+  const { proposalId } = req.params;
+
+  const { user, plant } = await loadOwnedPlant(req);
+
+  const chatMessage = await findProposalMessage(user, plant, proposalId);
+  const proposal = chatMessage?.proposals.find(
+    (p) => String(p._id) === proposalId
+  );
+  if (!chatMessage || !proposal) {
+    throw new NotFoundError("Proposal not found");
+  }
+
+  if (proposal.status !== "pending") {
+    throw new ConflictError(`Proposal has already been ${proposal.status}`, {
+      proposal,
+    });
+  }
+
+  if (status === "applied") {
+    const stepId = applyProposal(plant, proposal);
+    if (stepId === null) {
+      throw new ConflictError(
+        "The step this proposal refers to no longer exists",
+        { proposal }
+      );
+    }
+    proposal.appliedStepId = stepId;
+    await plant.save();
+  }
+
+  proposal.status = status;
+  proposal.resolvedAt = new Date();
+  await chatMessage.save();
+
+  res.status(200).json({
+    message:
+      status === "applied"
+        ? "Proposal applied successfully"
+        : "Proposal dismissed successfully",
+    data: { proposal, plant },
+  });
+};
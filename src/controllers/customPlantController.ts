@@ -1,36 +1,63 @@
-import { GoogleGenAI } from '@google/genai';
-import { Request, Response } from 'express';
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { AuthenticationError, NotFoundError, ValidationError } from '../errors';
+import { ValidatedRequest } from '../middleware/validate';
 import Plant from '../models/Plant';
+import { customPlantSchema, generateStructured, getGenerationInfo } from '../services/ai';
+import { describeSpecies, matchSpecies } from '../services/catalog';
+import { describeClimate } from '../services/geo';
+import { describeSpace, findOwnedSpace, spaceSurvey } from '../services/spaces';
+import { ensureUser, locationDetailsFor, missingSurveyFields, withSurveyDefaults } from '../services/users';
+import { plantRequests } from '../validation/plants';
+
+export const getCustomPlantRecommendation = async (
+  req: ValidatedRequest<typeof plantRequests.customPlant>,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
 
-export const getCustomPlantRecommendation = async (req: Request, res: Response): Promise<void> => {
-  try {
-    // Validate API key
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('GEMINI_API_KEY is not set in environment variables');
-    }
+  const { plantName } = req.body;
 
-    // Initialize Gemini AI
-    const genAI = new GoogleGenAI({ apiKey });
+  // Find the requesting user, creating them on their first request
+  const user = await ensureUser(firebaseUser);
 
-    const { location, sunlightHours, availableSpace, plantName } = req.body;
+  // A targeted growing space supplies its own sunlight and space
+  const { spaceId } = req.body;
+  const space = spaceId === undefined ? null : await findOwnedSpace(user, spaceId);
+  if (spaceId !== undefined && !space) {
+    throw new NotFoundError('Growing space not found');
+  }
 
-    // Validate input
-    if (!location || !sunlightHours || !availableSpace || !plantName) {
-      res.status(400).json({ 
-        message: 'Missing required fields: location, sunlightHours, availableSpace, plantName' 
-      });
-      return;
-    }
+  // Growing conditions default to the saved survey profile
+  const survey = withSurveyDefaults(space ? { ...req.body, ...spaceSurvey(space) } : req.body, user);
+  const missing = missingSurveyFields(survey);
 
-    // Create prompt for Gemini AI
-    const prompt = `Given the following conditions:
-    - Location: ${location}
+  // Validate input
+  if (missing.length > 0) {
+    throw new ValidationError(`Missing required fields: ${missing.join(', ')}`);
+  }
+  const { location, sunlightHours, availableSpace } = survey;
+  const locationDetails = locationDetailsFor(user, String(location));
+
+  // A catalog match already shows the name is a real plant, so the model
+  // only has to judge names the catalog does not know
+  const species = await matchSpecies(plantName);
+  const validation = species
+    ? `"${plantName}" is a known plant (${species.commonName}, ${species.scientificName}).`
+    : `First, validate if "${plantName}" is a valid plant name. If it's not a real plant or contains garbage values, return an error response.`;
+
+  // Create prompt for the AI model
+  const prompt = `Given the following conditions:
+    - Location: ${location}${describeClimate(locationDetails)}
     - Hours of direct sunlight: ${sunlightHours} hours
-    - Available space: ${availableSpace}
-    - Plant to grow: ${plantName}
+    - Available space: ${availableSpace}${describeSpace(space)}
+    - Plant to grow: ${plantName}${describeSpecies(species)}
     
-    First, validate if "${plantName}" is a valid plant name. If it's not a real plant or contains garbage values, return an error response.
+    ${validation}
     
     If it's a valid plant, provide detailed information about growing this specific plant in these conditions. Include:
     1. A brief description of the plant
@@ -70,127 +97,56 @@ export const getCustomPlantRecommendation = async (req: Request, res: Response):
     Each step should be a complete instruction that can be tracked independently.
     Do not include any markdown formatting, code blocks, or additional text. Return ONLY the JSON object.`;
 
-    console.log('Sending prompt to Gemini:', prompt);
+  const parsedRecommendation = await generateStructured(
+    { task: 'customPlant', prompt },
+    customPlantSchema,
+    'object'
+  );
 
-    // Get model and generate content
-    const response = await genAI.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: [{ role: "user", parts: [{ text: prompt }] }]
+  // Check if the plant name is valid
+  if (!parsedRecommendation.isValid) {
+    throw new ValidationError('Invalid plant name', {
+      reason: parsedRecommendation.error || 'Please provide a valid plant name'
     });
+  }
 
-    if (!response.text) {
-      throw new Error('No response text from Gemini API');
-    }
-
-    console.log('Raw Gemini response:', response.text);
-
-    // Try to parse the response
-    let parsedRecommendation;
-    try {
-      // First, try to find a JSON object in the response
-      const jsonMatch = response.text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON object found in response');
-      }
-
-      // Clean the JSON string
-      const jsonStr = jsonMatch[0]
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim();
-
-      console.log('Extracted JSON string:', jsonStr);
-
-      // Parse the JSON
-      parsedRecommendation = JSON.parse(jsonStr);
-
-      // Validate the structure
-      if (typeof parsedRecommendation !== 'object') {
-        throw new Error('Parsed data is not an object');
-      }
-
-      // Check if the plant name is valid
-      if (!parsedRecommendation.isValid) {
-        res.status(400).json({
-          message: 'Invalid plant name',
-          error: parsedRecommendation.error || 'Please provide a valid plant name'
-        });
-        return;
-      }
-
-      // Validate required fields for valid plant
-      if (!parsedRecommendation.name || !parsedRecommendation.description || 
-          !parsedRecommendation.successRate || !parsedRecommendation.steps || 
-          !parsedRecommendation.difficultyLevel) {
-        throw new Error('Missing required fields in recommendation');
-      }
-
-    } catch (parseError) {
-      console.error('Error parsing Gemini response:', parseError);
-      console.error('Raw response:', response.text);
-      throw new Error(`Failed to parse Gemini response: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`);
-    }
-
-    // Process steps
-    const processedSteps = parsedRecommendation.steps.map((step: any, index: number) => ({
-      id: index + 1,
-      title: String(step.title || '').trim(),
-      description: String(step.description || '').trim(),
-      estimatedTime: String(step.estimatedTime || '').trim(),
-      isCompleted: false
-    }));
-
-    // Create and save the plant
-    const plant = new Plant({
-      location,
+  // Process steps
+  const processedSteps = parsedRecommendation.steps.map((step, index) => ({
+    id: index + 1,
+    title: step.title,
+    description: step.description,
+    estimatedTime: step.estimatedTime,
+    isCompleted: false
+  }));
+
+  // Create and save the plant
+  const plant = new Plant({
+    plantName: parsedRecommendation.name,
+    description: parsedRecommendation.description,
+    successRate: parsedRecommendation.successRate,
+    steps: processedSteps,
+    difficultyLevel: parsedRecommendation.difficultyLevel,
+    isValid: parsedRecommendation.isValid,
+    imageUrl: parsedRecommendation.imageUrl || 'https://picsum.photos/500/500',
+    space: space?._id,
+    species: species?._id,
+    growingContext: {
+      location: String(location).trim(),
       sunlightHours: Number(sunlightHours),
-      availableSpace,
-      plantName: String(parsedRecommendation.name).trim(),
-      description: String(parsedRecommendation.description).trim(),
-      successRate: String(parsedRecommendation.successRate).trim(),
-      steps: processedSteps,
-      difficultyLevel: String(parsedRecommendation.difficultyLevel).trim(),
-      isValid: parsedRecommendation.isValid,
-      imageUrl: String(parsedRecommendation.imageUrl).trim(),
-    });
+      availableSpace: String(availableSpace).trim(),
+      hardinessZone: locationDetails?.climate?.hardinessZone,
+      ...getGenerationInfo('customPlant')
+    }
+  });
 
-    await plant.save();
+  await plant.save();
 
-    res.status(200).json({
-      message: 'Custom plant created successfully',
-      data: plant
-    });
-  } catch (error) {
-    console.error('Error creating custom plant:', error);
-    
-    // Handle specific error cases
-    if (error instanceof Error) {
-      if (error.message.includes('403')) {
-        res.status(403).json({ 
-          message: 'Authentication failed. Please check your Gemini API key.',
-          error: error.message
-        });
-        return;
-      }
-      if (error.message.includes('API key')) {
-        res.status(401).json({ 
-          message: 'Invalid API key. Please check your Gemini API key configuration.',
-          error: error.message
-        });
-        return;
-      }
-      if (error.message.includes('parse')) {
-        res.status(422).json({ 
-          message: 'Failed to parse Gemini response. The response format was invalid.',
-          error: error.message
-        });
-        return;
-      }
-    }
+  // Link the plant to the user so the ownership checks let them use it
+  (user.plants as Types.ObjectId[]).push(plant._id as Types.ObjectId);
+  await user.save();
 
-    res.status(500).json({ 
-      message: 'Error creating custom plant',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
+  res.status(200).json({
+    message: 'Custom plant created successfully',
+    data: plant
+  });
 }; 
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import { AuthenticationError, OwnershipError } from "../errors";
+import { ValidatedRequest } from "../middleware/validate";
+import Diagnosis from "../models/Diagnosis";
+import User from "../models/User";
+import { plantRequests } from "../validation/plants";
+
+export const getPlantDiagnoses = async (
+  req: ValidatedRequest<typeof plantRequests.diagnoses>,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const plantObjectId = new Types.ObjectId(req.params.plantId);
+
+  // Check if user owns this plant
+  const user = await User.findOne({
+    firebaseUid: firebaseUser.uid,
+    plants: plantObjectId,
+  });
+
+  if (!user) {
+    throw new OwnershipError("Not authorized to view this plant");
+  }
+
+  const { page, limit } = req.query;
+
+  const [diagnoses, total] = await Promise.all([
+    Diagnosis.find({ plant: plantObjectId })
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Diagnosis.countDocuments({ plant: plantObjectId }),
+  ]);
+
+  res.status(200).json({
+    message: "Plant diagnoses retrieved successfully",
+    data: diagnoses,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+};
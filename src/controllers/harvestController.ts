@@ -0,0 +1,67 @@
+import { Response } from "express";
+import { NotFoundError } from "../errors";
+import { ValidatedRequest } from "../middleware/validate";
+import Harvest from "../models/Harvest";
+import { plantRequests } from "../validation/plants";
+import { loadOwnedPlant } from "./ownership";
+
+export const createHarvest = async (
+  req: ValidatedRequest<typeof plantRequests.createHarvest>,
+  res: Response
+): Promise<void> => {
+  const { harvestedAt, quantity, unit, qualityRating, note } = req.body;
+
+  const { user, plant } = await loadOwnedPlant(req);
+
+  const harvest = await Harvest.create({
+    user: user._id,
+    plant: plant._id,
+    harvestedAt: harvestedAt ?? new Date(),
+    quantity,
+    unit,
+    qualityRating,
+    note: note || undefined,
+  });
+
+  res.status(201).json({
+    message: "Harvest recorded successfully",
+    data: harvest,
+  });
+};
+
+export const getHarvests = async (
+  req: ValidatedRequest<typeof plantRequests.harvests>,
+  res: Response
+): Promise<void> => {
+  const { plant } = await loadOwnedPlant(req, "view");
+
+  const harvests = await Harvest.find({ plant: plant._id }).sort({
+    harvestedAt: -1,
+  });
+
+  res.status(200).json({
+    message: "Harvests retrieved successfully",
+    data: harvests,
+  });
+};
+
+export const deleteHarvest = async (
+  req: ValidatedRequest<typeof plantRequests.deleteHarvest>,
+  res: Response
+): Promise<void> => {
+  const { plant } = await loadOwnedPlant(req);
+
+  const harvest = await Harvest.findOneAndDelete({
+    _id: req.params.harvestId,
+    plant: plant._id,
+  });
+
+  if (!harvest) {
+    throw new NotFoundError("Harvest not found");
+  }
+
+  res.status(200).json({
+    message: "Harvest deleted successfully",
+    data: harvest,
+  });
+};
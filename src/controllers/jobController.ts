@@ -0,0 +1,37 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import { AuthenticationError, NotFoundError, ValidationError } from "../errors";
+import { AuthRequest } from "../middleware/auth";
+import Job from "../models/Job";
+import User from "../models/User";
+import { serializeJob } from "../services/jobs";
+
+export const getJob = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const jobId = String(req.params.jobId);
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  if (!Types.ObjectId.isValid(jobId)) {
+    throw new ValidationError("Invalid job ID format", {
+      reason: "ID must be a 24-character hex string",
+    });
+  }
+
+  const user = await User.findOne({ firebaseUid: firebaseUser.uid });
+  const job = user ? await Job.findOne({ _id: jobId, user: user._id }) : null;
+
+  if (!job) {
+    throw new NotFoundError("Job not found");
+  }
+
+  res.status(200).json({
+    message: "Job retrieved successfully",
+    data: serializeJob(job),
+  });
+};
@@ -0,0 +1,158 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import { NotFoundError, ValidationError } from "../errors";
+import { readUploadedImage } from "../middleware/upload";
+import { ValidatedRequest } from "../middleware/validate";
+import JournalEntry, { IJournalEntry } from "../models/JournalEntry";
+import Photo from "../models/Photo";
+import { addToGallery, serializePhoto, storePhoto } from "../services/photos";
+import { plantRequests } from "../validation/plants";
+import { loadOwnedPlant } from "./ownership";
+
+const MEASUREMENT_FIELDS = [
+  "heightCm",
+  "leafCount",
+  "yieldWeightGrams",
+] as const;
+
+// Opaque cursor pointing at the last entry of a page
+const encodeCursor = (entry: IJournalEntry): string =>
+  Buffer.from(`${entry.createdAt.toISOString()}|${entry._id}`).toString(
+    "base64url"
+  );
+
+const decodeCursor = (
+  cursor: string
+): { createdAt: Date; id: Types.ObjectId } | null => {
+  const [createdAt, id] = Buffer.from(cursor, "base64url")
+    .toString("utf-8")
+    .split("|");
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime()) || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { createdAt: date, id: new Types.ObjectId(id) };
+};
+
+const serializeEntry = async (entry: IJournalEntry) => {
+  const photo = entry.photo ? await Photo.findById(entry.photo) : null;
+  return {
+    ...entry.toJSON(),
+    photo: photo ? await serializePhoto(photo) : null,
+  };
+};
+
+export const createJournalEntry = async (
+  req: ValidatedRequest<typeof plantRequests.createJournalEntry>,
+  res: Response
+): Promise<void> => {
+  const { note, stepId } = req.body;
+
+  const measurements = { ...req.body.measurements };
+  MEASUREMENT_FIELDS.forEach((field) => {
+    if (req.body[field] !== undefined) {
+      measurements[field] = req.body[field];
+    }
+  });
+
+  // The photo is optional
+  const hasImage = Boolean(req.file || req.body.imageBase64);
+  const image = hasImage ? readUploadedImage(req) : null;
+
+  const { user, plant } = await loadOwnedPlant(req);
+
+  if (
+    stepId !== undefined &&
+    !plant.steps.some((step) => step.id === stepId)
+  ) {
+    throw new NotFoundError("Step not found");
+  }
+
+  let photoId: Types.ObjectId | undefined;
+  if (image) {
+    const photo = await storePhoto(
+      user._id as Types.ObjectId,
+      plant._id as Types.ObjectId,
+      "progress",
+      image
+    );
+    addToGallery(plant, photo);
+    await plant.save();
+    photoId = photo._id as Types.ObjectId;
+  }
+
+  const entry = await JournalEntry.create({
+    user: user._id,
+    plant: plant._id,
+    note,
+    photo: photoId,
+    measurements,
+    stepId,
+  });
+
+  res.status(201).json({
+    message: "Journal entry created successfully",
+    data: await serializeEntry(entry),
+  });
+};
+
+export const getJournalEntries = async (
+  req: ValidatedRequest<typeof plantRequests.journalEntries>,
+  res: Response
+): Promise<void> => {
+  const { limit } = req.query;
+
+  const cursor =
+    req.query.cursor === undefined ? undefined : decodeCursor(req.query.cursor);
+  if (cursor === null) {
+    throw new ValidationError("Invalid cursor");
+  }
+
+  const { plant } = await loadOwnedPlant(req, "view");
+
+  const entries = await JournalEntry.find({
+    plant: plant._id,
+    ...(cursor && {
+      $or: [
+        { createdAt: { $lt: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { $lt: cursor.id } },
+      ],
+    }),
+  })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit + 1);
+
+  const page = entries.slice(0, limit);
+  const hasMore = entries.length > limit;
+
+  res.status(200).json({
+    message: "Journal entries retrieved successfully",
+    data: await Promise.all(page.map(serializeEntry)),
+    pagination: {
+      limit,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    },
+  });
+};
+
+export const deleteJournalEntry = async (
+  req: ValidatedRequest<typeof plantRequests.deleteJournalEntry>,
+  res: Response
+): Promise<void> => {
+  const { plant } = await loadOwnedPlant(req);
+
+  const entry = await JournalEntry.findOneAndDelete({
+    _id: req.params.entryId,
+    plant: plant._id,
+  });
+
+  if (!entry) {
+    throw new NotFoundError("Journal entry not found");
+  }
+
+  // The photo stays in the plant's gallery
+  res.status(200).json({
+    message: "Journal entry deleted successfully",
+    data: entry,
+  });
+};
@@ -0,0 +1,224 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import {
+  AuthenticationError,
+  NotFoundError,
+  OwnershipError,
+  ValidationError,
+} from "../errors";
+import { AuthRequest } from "../middleware/auth";
+import User, { IUser } from "../models/User";
+import { ensureUser } from "../services/users";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isValidTimezone = (timezone: unknown): timezone is string => {
+  if (typeof timezone !== "string" || !timezone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const serializePreferences = (user: IUser) => ({
+  quietHours: user.notificationPreferences?.quietHours || null,
+  timezone: user.notificationPreferences?.timezone || "UTC",
+  mutedPlants: user.notificationPreferences?.mutedPlants || [],
+  devices: user.deviceTokens.map((device) => ({
+    platform: device.platform,
+    lastSeenAt: device.lastSeenAt,
+  })),
+});
+
+export const registerDevice = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+  const { token, platform } = req.body || {};
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  if (typeof token !== "string" || !token.trim()) {
+    throw new ValidationError("Device token is required");
+  }
+
+  const deviceToken = token.trim();
+  const user = await ensureUser(firebaseUser);
+
+  // A device belongs to whoever signed in on it last; the previous account's
+  // reminders must not keep arriving there
+  await User.updateMany(
+    { _id: { $ne: user._id }, "deviceTokens.token": deviceToken },
+    { $pull: { deviceTokens: { token: deviceToken } } }
+  );
+
+  const existing = user.deviceTokens.find((d) => d.token === deviceToken);
+  if (existing) {
+    existing.lastSeenAt = new Date();
+    if (platform) {
+      existing.platform = String(platform);
+    }
+  } else {
+    user.deviceTokens.push({
+      token: deviceToken,
+      platform: platform ? String(platform) : undefined,
+      lastSeenAt: new Date(),
+    });
+  }
+
+  await user.save();
+
+  res.status(existing ? 200 : 201).json({
+    message: "Device registered successfully",
+    data: serializePreferences(user),
+  });
+};
+
+export const unregisterDevice = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const user = await User.findOneAndUpdate(
+    { firebaseUid: firebaseUser.uid },
+    { $pull: { deviceTokens: { token: String(req.params.token) } } },
+    { new: true }
+  );
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  res.status(200).json({
+    message: "Device unregistered successfully",
+    data: serializePreferences(user),
+  });
+};
+
+export const getNotificationPreferences = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const user = await User.findOne({ firebaseUid: firebaseUser.uid });
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  res.status(200).json({
+    message: "Notification preferences retrieved successfully",
+    data: serializePreferences(user),
+  });
+};
+
+export const updateNotificationPreferences = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+  const { quietHours, timezone } = req.body || {};
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  // quietHours: null clears them
+  if (
+    quietHours !== undefined &&
+    quietHours !== null &&
+    (!TIME_PATTERN.test(String(quietHours.start)) ||
+      !TIME_PATTERN.test(String(quietHours.end)))
+  ) {
+    throw new ValidationError(
+      "quietHours.start and quietHours.end must be HH:mm times"
+    );
+  }
+
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    throw new ValidationError(
+      "timezone must be an IANA time zone, e.g. Europe/London"
+    );
+  }
+
+  const user = await User.findOne({ firebaseUid: firebaseUser.uid });
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  if (quietHours !== undefined) {
+    user.notificationPreferences.quietHours = quietHours
+      ? { start: quietHours.start, end: quietHours.end }
+      : undefined;
+  }
+  if (timezone !== undefined) {
+    user.notificationPreferences.timezone = timezone;
+  }
+
+  await user.save();
+
+  res.status(200).json({
+    message: "Notification preferences updated successfully",
+    data: serializePreferences(user),
+  });
+};
+
+export const setPlantReminders = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const plantId = String(req.params.plantId);
+  const firebaseUser = req.user;
+  const { muted } = req.body || {};
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  if (typeof muted !== "boolean") {
+    throw new ValidationError("muted must be a boolean");
+  }
+
+  // Validate ObjectId format
+  if (!Types.ObjectId.isValid(plantId)) {
+    throw new ValidationError("Invalid plant ID format", {
+      reason: "ID must be a 24-character hex string",
+    });
+  }
+
+  const plantObjectId = new Types.ObjectId(plantId);
+
+  // Check if user owns this plant
+  const user = await User.findOneAndUpdate(
+    { firebaseUid: firebaseUser.uid, plants: plantObjectId },
+    muted
+      ? { $addToSet: { "notificationPreferences.mutedPlants": plantObjectId } }
+      : { $pull: { "notificationPreferences.mutedPlants": plantObjectId } },
+    { new: true }
+  );
+
+  if (!user) {
+    throw new OwnershipError("Not authorized to modify this plant");
+  }
+
+  res.status(200).json({
+    message: `Reminders ${muted ? "muted" : "enabled"} for plant`,
+    data: serializePreferences(user),
+  });
+};
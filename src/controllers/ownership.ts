@@ -0,0 +1,55 @@
+import { Request } from "express";
+import { Types } from "mongoose";
+import {
+  AuthenticationError,
+  NotFoundError,
+  OwnershipError,
+  ValidationError,
+} from "../errors";
+import Plant, { IPlant } from "../models/Plant";
+import User, { IUser } from "../models/User";
+
+export interface OwnedPlant {
+  user: IUser;
+  plant: IPlant;
+}
+
+// Resolve the plant in `req.params.plantId` if the requesting user owns it.
+// Throws otherwise.
+export const loadOwnedPlant = async (
+  req: Pick<Request<{ plantId: string }>, "params" | "user">,
+  action: "view" | "modify" = "modify"
+): Promise<OwnedPlant> => {
+  const { plantId } = req.params;
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  // Validate ObjectId format
+  if (!Types.ObjectId.isValid(plantId)) {
+    throw new ValidationError("Invalid plant ID format", {
+      reason: "ID must be a 24-character hex string",
+    });
+  }
+
+  const plantObjectId = new Types.ObjectId(plantId);
+
+  // Check if user owns this plant
+  const user = await User.findOne({
+    firebaseUid: firebaseUser.uid,
+    plants: plantObjectId,
+  });
+
+  if (!user) {
+    throw new OwnershipError(`Not authorized to ${action} this plant`);
+  }
+
+  const plant = await Plant.findById(plantObjectId);
+  if (!plant) {
+    throw new NotFoundError("Plant not found");
+  }
+
+  return { user, plant };
+};
@@ -0,0 +1,173 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import {
+  AuthenticationError,
+  NotFoundError,
+  OwnershipError,
+  ValidationError,
+} from "../errors";
+import { AuthRequest } from "../middleware/auth";
+import { readUploadedImage } from "../middleware/upload";
+import { ValidatedRequest } from "../middleware/validate";
+import Photo from "../models/Photo";
+import User from "../models/User";
+import {
+  addToGallery,
+  removeFromPlant,
+  serializePhoto,
+  storePhoto,
+} from "../services/photos";
+import { getLocalDriver, getStorage } from "../services/storage";
+import { plantRequests } from "../validation/plants";
+import { loadOwnedPlant } from "./ownership";
+
+export const uploadPlantPhoto = async (
+  req: ValidatedRequest<typeof plantRequests.uploadPhoto>,
+  res: Response
+): Promise<void> => {
+  const image = readUploadedImage(req);
+
+  const { user, plant } = await loadOwnedPlant(req);
+
+  const photo = await storePhoto(
+    user._id as Types.ObjectId,
+    plant._id as Types.ObjectId,
+    "progress",
+    image
+  );
+  addToGallery(plant, photo);
+
+  if (req.body.setAsCover) {
+    plant.coverPhoto = photo._id as Types.ObjectId;
+  }
+
+  await plant.save();
+
+  res.status(201).json({
+    message: "Photo uploaded successfully",
+    data: await serializePhoto(photo),
+  });
+};
+
+export const listPlantPhotos = async (
+  req: ValidatedRequest<typeof plantRequests.listPhotos>,
+  res: Response
+): Promise<void> => {
+  const { plant } = await loadOwnedPlant(req, "view");
+
+  const photos = await Photo.find({ _id: { $in: plant.gallery } }).sort({
+    createdAt: -1,
+  });
+
+  res.status(200).json({
+    message: "Plant photos retrieved successfully",
+    data: {
+      coverPhoto: plant.coverPhoto || null,
+      photos: await Promise.all(photos.map(serializePhoto)),
+    },
+  });
+};
+
+export const setPlantCover = async (
+  req: ValidatedRequest<typeof plantRequests.setCover>,
+  res: Response
+): Promise<void> => {
+  const { plant } = await loadOwnedPlant(req);
+
+  const photoObjectId = new Types.ObjectId(req.body.photoId);
+  if (!plant.gallery.some((id) => id.equals(photoObjectId))) {
+    throw new NotFoundError("Photo not found");
+  }
+
+  plant.coverPhoto = photoObjectId;
+  await plant.save();
+
+  res.status(200).json({
+    message: "Cover photo updated successfully",
+    data: plant,
+  });
+};
+
+export const deletePlantPhoto = async (
+  req: ValidatedRequest<typeof plantRequests.deletePhoto>,
+  res: Response
+): Promise<void> => {
+  const { plant } = await loadOwnedPlant(req);
+
+  const photo = await Photo.findOne({
+    _id: req.params.photoId,
+    plant: plant._id,
+  });
+  if (!photo) {
+    throw new NotFoundError("Photo not found");
+  }
+
+  await removeFromPlant(plant, photo);
+  await plant.save();
+
+  res.status(200).json({
+    message: "Photo deleted successfully",
+    data: plant,
+  });
+};
+
+// Authenticated access to a photo by id, for its owner only
+export const getPhoto = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+  const photoId = String(req.params.photoId);
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  if (!Types.ObjectId.isValid(photoId)) {
+    throw new ValidationError("Invalid photo ID format", {
+      reason: "ID must be a 24-character hex string",
+    });
+  }
+
+  const user = await User.findOne({ firebaseUid: firebaseUser.uid });
+  const photo = user
+    ? await Photo.findOne({ _id: photoId, user: user._id })
+    : null;
+  if (!photo) {
+    throw new NotFoundError("Photo not found");
+  }
+
+  const stored = await getStorage().get(photo.key);
+  if (!stored) {
+    throw new NotFoundError("Photo not found");
+  }
+
+  res.setHeader("Content-Type", stored.contentType || photo.mimeType);
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  res.send(stored.data);
+};
+
+// Public access through a signed URL issued by the local storage driver
+export const serveSignedFile = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const localDriver = getLocalDriver();
+  // Express hands a wildcard parameter over as its path segments
+  const key = ([] as string[]).concat(req.params.key).join("/");
+  const expires = Number(req.query.expires);
+  const signature = String(req.query.signature || "");
+
+  if (!localDriver || !localDriver.verifySignature(key, expires, signature)) {
+    throw new OwnershipError("Invalid or expired link");
+  }
+
+  const stored = await localDriver.get(key);
+  if (!stored) {
+    throw new NotFoundError("File not found");
+  }
+
+  res.setHeader("Content-Type", stored.contentType || "application/octet-stream");
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  res.send(stored.data);
+};
@@ -1,507 +1,361 @@
 import { Response } from "express";
+import {
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  OwnershipError,
+  ValidationError,
+} from "../errors";
 import { AuthRequest } from "../middleware/auth";
-import Plant from "../models/Plant";
+import { ValidatedRequest } from "../middleware/validate";
+import Diagnosis from "../models/Diagnosis";
+import Photo from "../models/Photo";
+import GrowingSpace from "../models/GrowingSpace";
+import Plant, { IPlant } from "../models/Plant";
 import User from "../models/User";
-import { GoogleGenAI } from "@google/genai";
+import { readUploadedImage } from "../middleware/upload";
+import { addToGallery, storePhoto } from "../services/photos";
+import { getStorage, signedUrlFor } from "../services/storage";
+import { insertTreatmentSteps, setStepStatus } from "../services/steps";
+import { currentWeatherFlags } from "../services/schedule";
+import {
+  copyTemplateForUser,
+  findTemplateCopy,
+} from "../services/recommendationCache";
+import { RecommendationJobPayload } from "../services/recommendations";
+import { enqueueJob, serializeJob } from "../services/jobs";
+import { getJobConfig } from "../config/jobs";
+import { ActivationCheck, checkActivation } from "../services/compatibility";
+import { getActivationConfig } from "../config/activation";
+import { findOwnedSpace, spaceSurvey } from "../services/spaces";
+import {
+  ensureUser,
+  missingSurveyFields,
+  rememberSurvey,
+  withSurveyDefaults,
+} from "../services/users";
+import {
+  diagnosisSchema,
+  generateStructured,
+  getGenerationInfo,
+} from "../services/ai";
+import { plantRequests } from "../validation/plants";
 import { Types } from "mongoose";
+import { loadOwnedPlant } from "./ownership";
 
 export const getPlantRecommendations = async (
-  req: AuthRequest,
+  req: ValidatedRequest<typeof plantRequests.recommendations>,
   res: Response
 ): Promise<void> => {
-  try {
-    const firebaseUser = req.user;
-    const { location, sunlightHours, availableSpace } = req.body;
-
-    if (!firebaseUser) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
-
-    // Validate required fields
-    if (!location || !sunlightHours || !availableSpace) {
-      res.status(400).json({
-        message: "Missing required fields",
-        required: ["location", "sunlightHours", "availableSpace"],
-      });
-      return;
-    }
-
-    // Check if user exists and create if not
-    let user = await User.findOne({ firebaseUid: firebaseUser.uid });
-
-    if (!user) {
-      // Create new user
-      user = new User({
-        firebaseUid: firebaseUser.uid,
-        email: firebaseUser.email,
-        location,
-        sunlightHours,
-        availableSpace,
-        plants: [],
-      });
-      await user.save();
-    } else {
-      // Update existing user's survey information
-      user.location = location;
-      user.sunlightHours = sunlightHours;
-      user.availableSpace = availableSpace;
-      await user.save();
-    }
-
-    // Initialize Gemini AI
-    const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  const firebaseUser = req.user;
 
-    // Create prompt for Gemini AI
-    const prompt = `Given the following conditions:
-    - Location: ${location}
-    - Hours of direct sunlight: ${sunlightHours} hours
-    - Available space: ${availableSpace}
-    
-    Provide a list of 6-8 plants that would grow well in these conditions. For each plant, include:
-    1. A brief description
-    2. Success rate in these specific conditions
-    3. A detailed step-by-step journey of growing this plant, including:
-       - Preparation steps (soil, tools, etc.)
-       - Planting process
-       - Daily/weekly care routine
-       - Growth milestones
-       - Harvesting instructions (if applicable)
-    4. Growing difficulty level
-    5. A publicly accessible image URL of the plant (must be a real, working URL from reliable sources like Unsplash, Pexels, or other reputable stock photo sites)
-    
-    IMPORTANT: Return ONLY a valid JSON array of objects with these exact properties:
-    [
-      {
-        "name": "Plant name",
-        "description": "Brief description",
-        "successRate": "success rate in percentage",
-        "imageUrl": "https://example.com/plant-image.jpg",
-        "steps": [
-          {
-            "title": "Step title",
-            "description": "Detailed description of what needs to be done",
-            "estimatedTime": "Time estimate (e.g., '2 weeks', '1 month')",
-            "isCompleted": false
-          }
-        ],
-        "difficultyLevel": "Difficulty level"
-      }
-    ]`;
-
-    // Get model and generate content
-    const response = await genAI.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-    });
-
-    if (!response.text) {
-      throw new Error("No response text from Gemini API");
-    }
-
-    // Try to parse the response
-    let parsedRecommendations;
-    try {
-      const jsonMatch = response.text.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error("No JSON array found in response");
-      }
-
-      const jsonStr = jsonMatch[0]
-        .replace(/```json\n?/g, "")
-        .replace(/```\n?/g, "")
-        .trim();
-
-      parsedRecommendations = JSON.parse(jsonStr);
-
-      if (!Array.isArray(parsedRecommendations)) {
-        throw new Error("Parsed data is not an array");
-      }
-
-      parsedRecommendations.forEach((rec: any) => {
-        if (
-          !rec.name ||
-          !rec.description ||
-          !rec.successRate ||
-          !rec.steps ||
-          !rec.difficultyLevel ||
-          !rec.imageUrl
-        ) {
-          throw new Error("Missing required fields in recommendation");
-        }
-        // Validate image URL
-        try {
-          new URL("https://picsum.photos/500/500");
-        } catch {
-          throw new Error("Invalid image URL provided");
-        }
-      });
-    } catch (parseError) {
-      console.error("Error parsing Gemini response:", parseError);
-      throw new Error(
-        `Failed to parse Gemini response: ${
-          parseError instanceof Error
-            ? parseError.message
-            : "Unknown parsing error"
-        }`
-      );
-    }
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
 
-    // Process and save each recommendation
-    const savedPlants = await Promise.all(
-      parsedRecommendations.map(async (rec: any) => {
-        // Process steps
-        const processedSteps = rec.steps.map((step: any, index: number) => ({
-          id: index + 1,
-          title: String(step.title || "").trim(),
-          description: String(step.description || "").trim(),
-          estimatedTime: String(step.estimatedTime || "").trim(),
-          isCompleted: false,
-        }));
-
-        // Create and save the plant
-        const plant = new Plant({
-          plantName: String(rec.name).trim(),
-          description: String(rec.description).trim(),
-          successRate: String(rec.successRate).trim(),
-          imageUrl: "https://picsum.photos/500/500",
-          steps: processedSteps,
-          difficultyLevel: String(rec.difficultyLevel).trim(),
-          isValid: true,
-        });
-
-        await plant.save();
-
-        // Add plant to user's plants array
-        await User.findOneAndUpdate(
-          { firebaseUid: firebaseUser.uid },
-          { $push: { plants: plant._id } }
-        );
-
-        return plant;
-      })
-    );
+  // Check if user exists and create if not
+  const user = await ensureUser(firebaseUser);
 
-    res.status(200).json({
-      message: "Plants created successfully",
-      data: savedPlants,
-    });
-  } catch (error) {
-    console.error("Error creating plants:", error);
-
-    if (error instanceof Error) {
-      if (error.message.includes("403")) {
-        res.status(403).json({
-          message: "Authentication failed. Please check your Gemini API key.",
-          error: error.message,
-        });
-        return;
-      }
-      if (error.message.includes("API key")) {
-        res.status(401).json({
-          message:
-            "Invalid API key. Please check your Gemini API key configuration.",
-          error: error.message,
-        });
-        return;
-      }
-      if (error.message.includes("parse")) {
-        res.status(422).json({
-          message:
-            "Failed to parse Gemini response. The response format was invalid.",
-          error: error.message,
-        });
-        return;
-      }
-    }
+  // Recommendations can target one of the user's growing spaces, whose
+  // conditions replace the survey's sunlight and space
+  const { spaceId } = req.body;
+  const space =
+    spaceId === undefined ? null : await findOwnedSpace(user, spaceId);
+  if (spaceId !== undefined && !space) {
+    throw new NotFoundError("Growing space not found");
+  }
 
-    res.status(500).json({
-      message: "Error creating plants",
-      error: error instanceof Error ? error.message : "Unknown error",
+  // Fields left out of the body default to the saved survey profile
+  const survey = withSurveyDefaults(
+    space ? { ...req.body, ...spaceSurvey(space) } : req.body,
+    user
+  );
+  const missing = missingSurveyFields(survey);
+  if (missing.length > 0) {
+    throw new ValidationError("Missing required fields", {
+      required: missing,
     });
   }
+  const { location, sunlightHours, availableSpace } = survey;
+
+  // Update user's survey information; a space's conditions stay with it
+  rememberSurvey(user, space ? { location } : survey);
+  await user.save();
+
+  // Generation runs in the background; clients poll the job for the
+  // resulting plant ids
+  const payload: RecommendationJobPayload = {
+    location: location as string,
+    sunlightHours: sunlightHours as number,
+    availableSpace: availableSpace as string,
+    spaceId: space ? String(space._id) : undefined,
+  };
+  const job = await enqueueJob(
+    "recommendations",
+    user._id as Types.ObjectId,
+    { ...payload },
+    getJobConfig().maxAttempts
+  );
+
+  res.status(202).json({
+    message: "Plant recommendations are being generated",
+    jobId: String(job._id),
+    statusUrl: `/api/jobs/${job._id}`,
+    data: serializeJob(job),
+  });
 };
 
 export const togglePlantActiveStatus = async (
-  req: AuthRequest,
+  req: ValidatedRequest<typeof plantRequests.toggleActive>,
   res: Response
 ): Promise<void> => {
-  try {
-    const { id } = req.params;
-    const firebaseUser = req.user;
+  const { id } = req.params;
+  const firebaseUser = req.user;
 
-    if (!firebaseUser) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
 
-    if (!id) {
-      res.status(400).json({ message: "Plant ID is required" });
-      return;
-    }
+  // ✅ Step 1: Find user by firebase UID
+  const user = await User.findOne({ firebaseUid: firebaseUser.uid });
 
-    // ✅ Step 1: Find user by firebase UID
-    const user = await User.findOne({ firebaseUid: firebaseUser.uid });
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
 
-    if (!user) {
-      res.status(404).json({ message: "User not found" });
-      return;
-    }
+  // ✅ Step 2: Find the plant. A shared recommendation template stands for
+  // the user's own copy of it, which is only made once activation is
+  // allowed.
+  let plant: IPlant | null = await Plant.findById(id);
+  if (!plant) {
+    throw new NotFoundError("Plant not found");
+  }
+  if (plant.isTemplate) {
+    plant = (await findTemplateCopy(plant, user)) ?? plant;
+  }
 
-    // ✅ Step 2: Find the plant
-    const plant = await Plant.findById(id);
-    if (!plant) {
-      res.status(404).json({ message: "Plant not found" });
-      return;
-    }
+  // Anyone may copy a template, but other plants must already be the
+  // user's. A plant no user lists predates ownership tracking and may be
+  // claimed.
+  const plantObjectId = plant._id as Types.ObjectId;
+  const alreadyOwned = user.plants.some(
+    (p) => p.toString() === plantObjectId.toString()
+  );
+  if (
+    !plant.isTemplate &&
+    !alreadyOwned &&
+    (await User.exists({ plants: plantObjectId }))
+  ) {
+    throw new OwnershipError("Not authorized to activate this plant");
+  }
+
+  // Activation can place the plant in one of the user's growing spaces
+  const { spaceId } = req.body;
+  const targetSpace =
+    spaceId === undefined || plant.isActive
+      ? null
+      : await findOwnedSpace(user, spaceId);
+  if (spaceId !== undefined && !plant.isActive && !targetSpace) {
+    throw new NotFoundError("Growing space not found");
+  }
 
-    // ✅ Step 3: Add plant to user if not already owned
-    const plantObjectId = new Types.ObjectId(id);
-    const alreadyOwned = user.plants.some(
-      (p) => p.toString() === plantObjectId.toString()
+  // ✅ Step 3: On activation, check the plant fits its space and gets on
+  // with the plants already active there. Warnings are advisory unless
+  // strict mode is on, and a blocked activation changes nothing.
+  let activationCheck: ActivationCheck | null = null;
+  if (!plant.isActive) {
+    const config = getActivationConfig();
+    const space =
+      targetSpace ??
+      (plant.space
+        ? await GrowingSpace.findOne({ _id: plant.space, user: user._id })
+        : null);
+    const neighbours = await Plant.find({
+      _id: { $in: user.plants, $ne: plant._id },
+      isActive: true,
+      space: space ? space._id : { $exists: false },
+    });
+    activationCheck = checkActivation(
+      plant,
+      space,
+      neighbours,
+      config.defaultFootprintSqM
     );
 
-    if (!alreadyOwned) {
-      (user.plants as Types.ObjectId[]).push(plantObjectId);
-      await user.save();
+    const strict = config.strict || req.body.strict || req.query.strict;
+    if (strict && activationCheck.warnings.length > 0) {
+      throw new ConflictError(
+        "Plant activation blocked by compatibility check",
+        { warnings: activationCheck.warnings, activationCheck }
+      );
     }
+  }
 
-    // ✅ Step 4: Toggle plant active status
-    plant.isActive = !plant.isActive;
-    await plant.save();
+  // ✅ Step 4: Claim an unlisted plant. Templates are copied instead, once
+  // per user, with the user's own growing conditions.
+  if (plant.isTemplate) {
+    plant = await copyTemplateForUser(plant, user, targetSpace);
+  } else if (!alreadyOwned) {
+    (user.plants as Types.ObjectId[]).push(plantObjectId);
+    await user.save();
+  }
 
-    res.status(200).json({
-      message: `Plant ${
-        plant.isActive ? "activated" : "deactivated"
-      } successfully`,
-      data: plant,
-    });
-  } catch (error) {
-    console.error("Error toggling plant active status:", error);
-    res.status(500).json({
-      message: "Error toggling plant active status",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  if (targetSpace && !plant.isActive) {
+    plant.space = targetSpace._id as Types.ObjectId;
+  }
+
+  // ✅ Step 5: Toggle plant active status
+  plant.isActive = !plant.isActive;
+  if (plant.isActive) {
+    // The care schedule counts from the latest activation, the stats from
+    // the first
+    plant.activatedAt = new Date();
+    plant.firstActivatedAt = plant.firstActivatedAt ?? plant.activatedAt;
   }
+  await plant.save();
+
+  res.status(200).json({
+    message: `Plant ${
+      plant.isActive ? "activated" : "deactivated"
+    } successfully`,
+    data: plant,
+    warnings: activationCheck?.warnings || [],
+    activationCheck,
+  });
 };
 
 export const getActivePlantRecommendations = async (
   req: AuthRequest,
   res: Response
 ): Promise<void> => {
-  try {
-    console.log({ req: req.user });
-    const firebaseUser = req.user;
+  console.log({ req: req.user });
+  const firebaseUser = req.user;
 
-    if (!firebaseUser) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  // Get user's active plants
+  const user = await User.findOne({ firebaseUid: firebaseUser.uid }).populate(
+    {
+      path: "plants",
+      match: { isActive: true },
     }
+  );
 
-    // Get user's active plants
-    const user = await User.findOne({ firebaseUid: firebaseUser.uid }).populate(
-      {
-        path: "plants",
-        match: { isActive: true },
-      }
-    );
+  const now = new Date();
+  const plants = ((user?.plants || []) as IPlant[]).map((plant) => ({
+    ...plant.toJSON(),
+    weatherFlags: currentWeatherFlags(plant, now),
+  }));
 
-    res.status(200).json({
-      message: "Active plants retrieved successfully",
-      data: user?.plants || [],
-    });
-  } catch (error) {
-    console.error("Error retrieving active plants:", error);
-    res.status(500).json({
-      message: "Error retrieving active plants",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
-  }
+  res.status(200).json({
+    message: "Active plants retrieved successfully",
+    data: plants,
+  });
 };
 
 export const markStepAsCompleted = async (
-  req: AuthRequest,
+  req: ValidatedRequest<typeof plantRequests.completeStep>,
   res: Response
 ): Promise<void> => {
-  try {
-    const { plantId, stepId } = req.params;
-    const firebaseUser = req.user;
-
-    if (!firebaseUser) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
-
-    if (!plantId || !stepId) {
-      res.status(400).json({ message: "Plant ID and Step ID are required" });
-      return;
-    }
-
-    // Check if user owns this plant
-    const user = await User.findOne({
-      firebaseUid: firebaseUser.uid,
-      plants: new Types.ObjectId(plantId),
-    });
+  const { plant } = await loadOwnedPlant(req);
 
-    if (!user) {
-      res.status(403).json({ message: "Not authorized to modify this plant" });
-      return;
-    }
-
-    const plant = await Plant.findById(plantId);
-    if (!plant) {
-      res.status(404).json({ message: "Plant not found" });
-      return;
-    }
-
-    // Find and update the step
-    const step = plant.steps.find((s) => s.id === Number(stepId));
-    if (!step) {
-      res.status(404).json({ message: "Step not found" });
-      return;
-    }
+  // Find and update the step
+  const step = plant.steps.find((s) => s.id === req.params.stepId);
+  if (!step) {
+    throw new NotFoundError("Step not found");
+  }
 
-    step.isCompleted = true;
-    await plant.save();
+  setStepStatus(step, "done");
+  await plant.save();
 
-    res.status(200).json({
-      message: "Step marked as completed",
-      data: plant,
-    });
-  } catch (error) {
-    console.error("Error marking step as completed:", error);
-    res.status(500).json({
-      message: "Error marking step as completed",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
-  }
+  res.status(200).json({
+    message: "Step marked as completed",
+    data: plant,
+  });
 };
 
 export const getPlantDetail = async (
-  req: AuthRequest,
+  req: ValidatedRequest<typeof plantRequests.plantDetail>,
   res: Response
 ): Promise<void> => {
-  try {
-    const { id } = req.params;
-    const firebaseUser = req.user;
-
-    if (!firebaseUser) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
-
-    if (!id) {
-      res.status(400).json({ message: "Plant ID is required" });
-      return;
-    }
+  const firebaseUser = req.user;
 
-    // Validate ObjectId format
-    if (!Types.ObjectId.isValid(id)) {
-      res.status(400).json({
-        message: "Invalid plant ID format",
-        error: "ID must be a 24-character hex string",
-      });
-      return;
-    }
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
 
-    const plantId = new Types.ObjectId(id);
+  const plantId = new Types.ObjectId(req.params.id);
 
-    // Check if user owns this plant
-    const user = await User.findOne({
+  // Shared recommendation templates can be viewed by anyone; other
+  // plants only by their owner
+  const isTemplate = await Plant.exists({ _id: plantId, isTemplate: true });
+  const user =
+    isTemplate ||
+    (await User.findOne({
       firebaseUid: firebaseUser.uid,
       plants: plantId,
-    });
-
-    if (!user) {
-      res.status(403).json({ message: "Not authorized to view this plant" });
-      return;
-    }
+    }));
 
-    const plant = await Plant.findById(plantId);
-    if (!plant) {
-      res.status(404).json({ message: "Plant not found" });
-      return;
-    }
+  if (!user) {
+    throw new OwnershipError("Not authorized to view this plant");
+  }
 
-    res.status(200).json({
-      message: "Plant details retrieved successfully",
-      data: plant,
-    });
-  } catch (error) {
-    console.error("Error retrieving plant details:", error);
-    res.status(500).json({
-      message: "Error retrieving plant details",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+  const plant = await Plant.findById(plantId);
+  if (!plant) {
+    throw new NotFoundError("Plant not found");
   }
+
+  const coverPhoto = plant.coverPhoto
+    ? await Photo.findById(plant.coverPhoto)
+    : null;
+
+  res.status(200).json({
+    message: "Plant details retrieved successfully",
+    data: {
+      ...plant.toJSON(),
+      coverImageUrl: coverPhoto ? await signedUrlFor(coverPhoto.key) : null,
+    },
+  });
 };
 
 export const analyzePlantImage = async (
-  req: AuthRequest,
+  req: ValidatedRequest<typeof plantRequests.diagnose>,
   res: Response
 ): Promise<void> => {
-  try {
-    const { plantId } = req.params;
-    const { imageBase64 } = req.body;
-    const firebaseUser = req.user;
-
-    if (!firebaseUser) {
-      res.status(401).json({ message: "User not authenticated" });
-      return;
-    }
-
-    if (!plantId) {
-      res.status(400).json({ message: "Plant ID is required" });
-      return;
-    }
+  const firebaseUser = req.user;
 
-    if (!imageBase64) {
-      res.status(400).json({ message: "Image data is required" });
-      return;
-    }
-
-    // Validate ObjectId format
-    if (!Types.ObjectId.isValid(plantId)) {
-      res.status(400).json({
-        message: "Invalid plant ID format",
-        error: "ID must be a 24-character hex string",
-      });
-      return;
-    }
-
-    const plantObjectId = new Types.ObjectId(plantId);
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
 
-    // Check if user owns this plant
-    const user = await User.findOne({
-      firebaseUid: firebaseUser.uid,
-      plants: plantObjectId,
-    });
+  // Images arrive either as a multipart upload or as base64 JSON
+  const image = readUploadedImage(req);
 
-    if (!user) {
-      res.status(403).json({ message: "Not authorized to analyze this plant" });
-      return;
-    }
+  const plantObjectId = new Types.ObjectId(req.params.plantId);
 
-    const plant = await Plant.findById(plantObjectId);
-    if (!plant) {
-      res.status(404).json({ message: "Plant not found" });
-      return;
-    }
+  // Check if user owns this plant
+  const user = await User.findOne({
+    firebaseUid: firebaseUser.uid,
+    plants: plantObjectId,
+  });
 
-    // Trim data URL prefix if present
-    const cleanBase64 = imageBase64.replace(/^data:image\/\w+;base64,/, "");
+  if (!user) {
+    throw new OwnershipError("Not authorized to analyze this plant");
+  }
 
-    // Validate API key
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY is not set in environment variables");
-    }
+  const plant = await Plant.findById(plantObjectId);
+  if (!plant) {
+    throw new NotFoundError("Plant not found");
+  }
 
-    // Initialize Gemini AI
-    const genAI = new GoogleGenAI({ apiKey });
+  // The image is stored once the model has answered; make sure that can
+  // work before paying for the call
+  getStorage();
 
-    // Create prompt for Gemini AI
-    const prompt = `Analyze this plant image and provide:
+  // Create prompt for the AI model
+  const prompt = `Analyze this plant image and provide:
     1. Plant health condition (healthy, stressed, diseased, etc.)
     2. Any visible issues or problems
     3. Recommendations for care or treatment
@@ -523,167 +377,82 @@ export const analyzePlantImage = async (
       ]
     }`;
 
-    // Get model and generate content
-    const response = await genAI.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: [
-        { role: "user", parts: [{ text: prompt }] },
-        {
-          role: "user",
-          parts: [
-            { inlineData: { data: cleanBase64, mimeType: "image/jpeg" } },
-          ],
-        },
+  const analysis = await generateStructured(
+    {
+      task: "diagnosis",
+      prompt,
+      images: [
+        { data: image.buffer.toString("base64"), mimeType: image.mimeType },
       ],
-    });
-
-    if (!response.text) {
-      console.error("Gemini API Response:", response);
-      throw new Error("No response text from Gemini API");
-    }
-
-    const text = response.text;
-    console.log("Gemini Raw Response:", text);
-
-    // Parse the response
-    let analysis;
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error("No JSON found in response. Full response:", text);
-        throw new Error("No JSON object found in response");
-      }
-
-      const jsonStr = jsonMatch[0]
-        .replace(/```json\n?/g, "")
-        .replace(/```\n?/g, "")
-        .trim();
-
-      analysis = JSON.parse(jsonStr);
-
-      // Validate required fields
-      if (
-        !analysis.healthCondition ||
-        !analysis.issues ||
-        !analysis.recommendations ||
-        !analysis.growthStage
-      ) {
-        console.error("Missing required fields in analysis:", analysis);
-        throw new Error("Missing required fields in analysis");
-      }
-
-      // If treatment is needed, validate treatment steps
-      if (
-        analysis.needsTreatment &&
-        (!analysis.treatmentSteps || !Array.isArray(analysis.treatmentSteps))
-      ) {
-        throw new Error(
-          "Treatment steps are required when needsTreatment is true"
-        );
-      }
-    } catch (parseError) {
-      console.error("Error parsing Gemini response:", parseError);
-      console.error("Raw response that failed to parse:", text);
-      throw new Error(
-        `Failed to parse Gemini response: ${
-          parseError instanceof Error
-            ? parseError.message
-            : "Unknown parsing error"
-        }`
-      );
-    }
-
-    // If plant is healthy, return early with success message
-    if (!analysis.needsTreatment) {
-      res.status(200).json({
-        message: "Plant is healthy! No additional steps needed.",
-        data: {
-          healthCondition: analysis.healthCondition,
-          issues: [],
-          recommendations: analysis.recommendations,
-          growthStage: analysis.growthStage,
-        },
-      });
-      return;
-    }
-
-    // Find the last completed step
-    const lastCompletedStep = plant.steps
-      .slice()
-      .reverse()
-      .find((step) => step.isCompleted);
-
-    // Add new treatment steps after the last completed step
-    const newSteps = analysis.treatmentSteps.map(
-      (
-        step: { title: string; description: string; estimatedTime: string },
-        index: number
-      ) => ({
-        id: plant.steps.length + index + 1,
-        title: step.title,
-        description: step.description,
-        estimatedTime: step.estimatedTime,
-        isCompleted: false,
-      })
-    );
-
-    // Update plant steps
-    plant.steps = [
-      ...plant.steps.slice(0, lastCompletedStep ? lastCompletedStep.id : 0),
-      ...newSteps,
-    ];
-
+    },
+    diagnosisSchema,
+    "object"
+  );
+
+  // Keep the image in the plant's gallery
+  const photo = await storePhoto(
+    user._id as Types.ObjectId,
+    plant._id as Types.ObjectId,
+    "diagnosis",
+    image
+  );
+  addToGallery(plant, photo);
+
+  // Keep the full analysis so the plant's health can be tracked over time
+  const diagnosis = await Diagnosis.create({
+    plant: plant._id,
+    user: user._id,
+    healthCondition: analysis.healthCondition,
+    issues: analysis.issues,
+    recommendations: analysis.recommendations,
+    growthStage: analysis.growthStage,
+    needsTreatment: analysis.needsTreatment,
+    treatmentSteps: analysis.treatmentSteps,
+    image: {
+      photo: photo._id,
+      sha256: photo.sha256,
+      mimeType: photo.mimeType,
+      size: photo.size,
+    },
+    generation: getGenerationInfo("diagnosis"),
+  });
+
+  // If plant is healthy, return early with success message
+  if (!analysis.needsTreatment) {
     await plant.save();
-
     res.status(200).json({
-      message: "Plant analysis completed and steps updated",
+      message: "Plant is healthy! No additional steps needed.",
       data: {
+        diagnosisId: diagnosis._id,
         healthCondition: analysis.healthCondition,
-        issues: analysis.issues,
+        issues: [],
         recommendations: analysis.recommendations,
         growthStage: analysis.growthStage,
-        updatedSteps: newSteps,
       },
     });
-  } catch (error) {
-    console.error("Error analyzing plant image:", error);
-
-    if (error instanceof Error) {
-      if (error.message.includes("403")) {
-        res.status(403).json({
-          message: "Authentication failed. Please check your Gemini API key.",
-          error: error.message,
-        });
-        return;
-      }
-      if (error.message.includes("API key")) {
-        res.status(401).json({
-          message:
-            "Invalid API key. Please check your Gemini API key configuration.",
-          error: error.message,
-        });
-        return;
-      }
-      if (error.message.includes("parse")) {
-        res.status(422).json({
-          message:
-            "Failed to parse Gemini response. The response format was invalid.",
-          error: error.message,
-        });
-        return;
-      }
-      if (error.message.includes("No response text")) {
-        res.status(500).json({
-          message: "Gemini API returned no text response",
-          error: error.message,
-        });
-        return;
-      }
-    }
-
-    res.status(500).json({
-      message: "Error analyzing plant image",
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    return;
   }
+
+  // Insert treatment steps after the current progress point, keeping the
+  // rest of the original journey intact
+  const stepDiff = insertTreatmentSteps(
+    plant,
+    analysis.treatmentSteps,
+    diagnosis._id as Types.ObjectId
+  );
+
+  await plant.save();
+
+  res.status(200).json({
+    message: "Plant analysis completed and steps updated",
+    data: {
+      diagnosisId: diagnosis._id,
+      healthCondition: analysis.healthCondition,
+      issues: analysis.issues,
+      recommendations: analysis.recommendations,
+      growthStage: analysis.growthStage,
+      updatedSteps: stepDiff.addedSteps,
+      stepDiff,
+    },
+  });
 };
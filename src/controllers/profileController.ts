@@ -0,0 +1,98 @@
+import { Response } from "express";
+import { AuthenticationError, ValidationError } from "../errors";
+import { AuthRequest } from "../middleware/auth";
+import { SPACE_TYPES } from "../models/User";
+import { isValidCoordinates } from "../services/geo";
+import {
+  ensureUser,
+  serializeProfile,
+  setUserLocation,
+  validateSurvey,
+} from "../services/users";
+
+const PROFILE_FIELDS = [
+  "location",
+  "coordinates",
+  "sunlightHours",
+  "availableSpace",
+] as const;
+
+export const getProfile = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const user = await ensureUser(firebaseUser);
+
+  res.status(200).json({
+    message: "Profile retrieved successfully",
+    data: serializeProfile(user),
+    spaceTypes: SPACE_TYPES,
+  });
+};
+
+export const updateProfile = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+  const body = req.body || {};
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const updates = Object.fromEntries(
+    PROFILE_FIELDS.filter((field) => body[field] !== undefined).map(
+      (field) => [field, body[field]]
+    )
+  );
+
+  if (Object.keys(updates).length === 0) {
+    throw new ValidationError("No profile fields provided", {
+      allowed: PROFILE_FIELDS,
+    });
+  }
+
+  const errors = validateSurvey(updates);
+  if (
+    updates.coordinates !== undefined &&
+    !isValidCoordinates(updates.coordinates)
+  ) {
+    errors.push({
+      field: "coordinates",
+      message: "Must be { lat, lon } with lat in -90..90 and lon in -180..180",
+    });
+  }
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid profile", { errors });
+  }
+
+  const user = await ensureUser(firebaseUser);
+  if (updates.location !== undefined || updates.coordinates !== undefined) {
+    setUserLocation(
+      user,
+      updates.location === undefined
+        ? undefined
+        : String(updates.location).trim(),
+      updates.coordinates as { lat: number; lon: number } | undefined
+    );
+  }
+  if (updates.sunlightHours !== undefined) {
+    user.sunlightHours = Number(updates.sunlightHours);
+  }
+  if (updates.availableSpace !== undefined) {
+    user.availableSpace = String(updates.availableSpace);
+  }
+  await user.save();
+
+  res.status(200).json({
+    message: "Profile updated successfully",
+    data: serializeProfile(user),
+  });
+};
@@ -0,0 +1,118 @@
+import { Response } from "express";
+import { AuthenticationError, NotFoundError, ValidationError } from "../errors";
+import { toErrorEnvelope } from "../middleware/errorHandler";
+import { ValidatedRequest } from "../middleware/validate";
+import { streamRecommendations } from "../services/recommendations";
+import { findOwnedSpace, spaceSurvey } from "../services/spaces";
+import {
+  ensureUser,
+  missingSurveyFields,
+  rememberSurvey,
+  withSurveyDefaults,
+} from "../services/users";
+import { plantRequests } from "../validation/plants";
+
+// Comment lines keep proxies from timing out an idle stream while the
+// model is still working on the next plant
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+const sendEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Server-Sent Events version of getPlantRecommendations. Takes the same
+// survey fields as query parameters and sends each plant as soon as it has
+// been generated and saved, followed by a summary. See the README for the
+// event format.
+export const streamPlantRecommendations = async (
+  req: ValidatedRequest<typeof plantRequests.recommendationStream>,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+  const { query } = req;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const user = await ensureUser(firebaseUser);
+
+  const spaceId = query.spaceId;
+  const space =
+    spaceId === undefined ? null : await findOwnedSpace(user, spaceId);
+  if (spaceId !== undefined && !space) {
+    throw new NotFoundError("Growing space not found");
+  }
+
+  // Fields left out of the query default to the saved survey profile
+  const survey = withSurveyDefaults(
+    space ? { ...query, ...spaceSurvey(space) } : query,
+    user
+  );
+  const missing = missingSurveyFields(survey);
+  if (missing.length > 0) {
+    throw new ValidationError("Missing required fields", {
+      required: missing,
+    });
+  }
+
+  // A space's conditions stay with it
+  rememberSurvey(user, space ? { location: survey.location } : survey);
+  await user.save();
+
+  // From here on the status is sent, so failures are reported as an
+  // `error` event carrying the usual error envelope
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  // Stop nginx from buffering the stream
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  // A client that goes away stops generation after the current plant
+  let disconnected = false;
+  res.on("close", () => {
+    disconnected = !res.writableEnded;
+  });
+  const heartbeat = setInterval(
+    () => res.write(": heartbeat\n\n"),
+    HEARTBEAT_INTERVAL_MS
+  );
+
+  const startedAt = Date.now();
+  sendEvent(res, "start", {
+    spaceId: space ? String(space._id) : null,
+  });
+
+  try {
+    const summary = await streamRecommendations(user, survey, space, {
+      onPlant: (plant, index) => sendEvent(res, "plant", { index, plant }),
+      onSkipped: (index, invalidFields) =>
+        sendEvent(res, "skipped", { index, invalidFields }),
+      isCancelled: () => disconnected,
+    });
+
+    if (disconnected) {
+      console.log(
+        `Recommendation stream closed by client after ${summary.count} plants`
+      );
+      return;
+    }
+
+    sendEvent(res, "summary", {
+      ...summary,
+      durationMs: Date.now() - startedAt,
+    });
+  } catch (error) {
+    console.error("Error streaming plant recommendations:", error);
+    if (disconnected) {
+      return;
+    }
+    sendEvent(res, "error", toErrorEnvelope(error).body);
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  res.end();
+};
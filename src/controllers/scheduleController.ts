@@ -0,0 +1,43 @@
+import { Response } from "express";
+import { parseNonNegativeInt } from "../config/env";
+import { AuthenticationError } from "../errors";
+import { AuthRequest } from "../middleware/auth";
+import { IPlant } from "../models/Plant";
+import User from "../models/User";
+import { buildCareSchedule } from "../services/schedule";
+
+const DEFAULT_HORIZON_DAYS = 14;
+const MAX_HORIZON_DAYS = 90;
+
+export const getSchedule = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const horizonDays = Math.min(
+    parseNonNegativeInt(req.query.days, DEFAULT_HORIZON_DAYS),
+    MAX_HORIZON_DAYS
+  );
+
+  // Get user's active plants
+  const user = await User.findOne({ firebaseUid: firebaseUser.uid }).populate(
+    {
+      path: "plants",
+      match: { isActive: true },
+    }
+  );
+
+  const plants = (user?.plants || []) as IPlant[];
+  const schedule = buildCareSchedule(plants, new Date(), horizonDays);
+
+  res.status(200).json({
+    message: "Care schedule retrieved successfully",
+    data: schedule,
+    horizonDays,
+  });
+};
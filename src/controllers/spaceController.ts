@@ -0,0 +1,203 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import { AuthenticationError, NotFoundError, ValidationError } from "../errors";
+import { AuthRequest } from "../middleware/auth";
+import { ValidatedRequest } from "../middleware/validate";
+import GrowingSpace, {
+  CONTAINER_TYPES,
+  IGrowingSpace,
+} from "../models/GrowingSpace";
+import Plant from "../models/Plant";
+import { IUser, SPACE_TYPES } from "../models/User";
+import {
+  findOwnedSpace,
+  SPACE_FIELDS,
+  SpaceInput,
+  validateSpace,
+} from "../services/spaces";
+import { ensureUser } from "../services/users";
+import { plantRequests } from "../validation/plants";
+import { loadOwnedPlant } from "./ownership";
+
+interface OwnedSpace {
+  user: IUser;
+  space: IGrowingSpace;
+}
+
+// Resolve the space in `req.params.spaceId` if the requesting user owns it.
+// Throws otherwise.
+const loadOwnedSpace = async (req: AuthRequest): Promise<OwnedSpace> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const user = await ensureUser(firebaseUser);
+  const space = await findOwnedSpace(user, String(req.params.spaceId));
+  if (!space) {
+    throw new NotFoundError("Growing space not found");
+  }
+
+  return { user, space };
+};
+
+const pickSpaceFields = (body: Record<string, unknown>): Partial<SpaceInput> =>
+  Object.fromEntries(
+    SPACE_FIELDS.filter((field) => body[field] !== undefined).map((field) => [
+      field,
+      field === "name" ? String(body[field]).trim() : body[field],
+    ])
+  );
+
+export const listSpaces = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const user = await ensureUser(firebaseUser);
+  const spaces = await GrowingSpace.find({ user: user._id }).sort({
+    createdAt: 1,
+  });
+
+  const counts = await Plant.aggregate<{ _id: unknown; count: number }>([
+    { $match: { space: { $in: spaces.map((space) => space._id) } } },
+    { $group: { _id: "$space", count: { $sum: 1 } } },
+  ]);
+  const countFor = (space: IGrowingSpace) =>
+    counts.find((entry) => String(entry._id) === String(space._id))
+      ?.count || 0;
+
+  res.status(200).json({
+    message: "Growing spaces retrieved successfully",
+    data: spaces.map((space) => ({
+      ...space.toJSON(),
+      plantCount: countFor(space),
+    })),
+    spaceTypes: SPACE_TYPES,
+    containerTypes: CONTAINER_TYPES,
+  });
+};
+
+export const createSpace = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+  const body = req.body || {};
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const errors = validateSpace(body, false);
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid growing space", { errors });
+  }
+
+  const user = await ensureUser(firebaseUser);
+  const space = await GrowingSpace.create({
+    user: user._id,
+    ...pickSpaceFields(body),
+  });
+
+  res.status(201).json({
+    message: "Growing space created successfully",
+    data: space,
+  });
+};
+
+export const getSpace = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const { space } = await loadOwnedSpace(req);
+
+  const plants = await Plant.find({ space: space._id }).sort({
+    createdAt: 1,
+  });
+
+  res.status(200).json({
+    message: "Growing space retrieved successfully",
+    data: { ...space.toJSON(), plants },
+  });
+};
+
+export const updateSpace = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const updates = pickSpaceFields(req.body || {});
+
+  if (Object.keys(updates).length === 0) {
+    throw new ValidationError("No growing space fields provided", {
+      allowed: SPACE_FIELDS,
+    });
+  }
+
+  const errors = validateSpace(req.body, true);
+  if (errors.length > 0) {
+    throw new ValidationError("Invalid growing space", { errors });
+  }
+
+  const { space } = await loadOwnedSpace(req);
+
+  space.set(updates);
+  await space.save();
+
+  res.status(200).json({
+    message: "Growing space updated successfully",
+    data: space,
+  });
+};
+
+export const deleteSpace = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const { space } = await loadOwnedSpace(req);
+
+  // Plants stay with the user, they just no longer belong to a space
+  const unassigned = await Plant.updateMany(
+    { space: space._id },
+    { $unset: { space: 1 } }
+  );
+  await space.deleteOne();
+
+  res.status(200).json({
+    message: "Growing space deleted successfully",
+    data: space,
+    unassignedPlants: unassigned.modifiedCount,
+  });
+};
+
+// Move a plant into one of the user's spaces, or out of any with null
+export const assignPlantSpace = async (
+  req: ValidatedRequest<typeof plantRequests.assignSpace>,
+  res: Response
+): Promise<void> => {
+  const { spaceId } = req.body;
+
+  const { user, plant } = await loadOwnedPlant(req);
+
+  if (spaceId === null) {
+    plant.space = undefined;
+  } else {
+    const space = await findOwnedSpace(user, spaceId);
+    if (!space) {
+      throw new NotFoundError("Growing space not found");
+    }
+    plant.space = space._id as Types.ObjectId;
+  }
+  await plant.save();
+
+  res.status(200).json({
+    message: "Plant space updated successfully",
+    data: plant,
+  });
+};
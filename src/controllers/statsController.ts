@@ -0,0 +1,42 @@
+import { Response } from "express";
+import { AuthenticationError, NotFoundError } from "../errors";
+import { AuthRequest } from "../middleware/auth";
+import Harvest from "../models/Harvest";
+import Plant from "../models/Plant";
+import User from "../models/User";
+import { computeUserStats } from "../services/stats";
+
+export const getStats = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const firebaseUser = req.user;
+
+  if (!firebaseUser) {
+    throw new AuthenticationError();
+  }
+
+  const user = await User.findOne({ firebaseUid: firebaseUser.uid });
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  const harvests = await Harvest.find({ user: user._id });
+  const harvestedPlantIds = harvests.map((harvest) => harvest.plant);
+
+  // Only plants the user actually grew: ever activated or harvested from.
+  // Recommendations that were never started would skew the rates.
+  const plants = await Plant.find({
+    _id: { $in: user.plants },
+    $or: [
+      { isActive: true },
+      { activatedAt: { $exists: true } },
+      { _id: { $in: harvestedPlantIds } },
+    ],
+  });
+
+  res.status(200).json({
+    message: "Stats retrieved successfully",
+    data: computeUserStats(plants, harvests),
+  });
+};
@@ -0,0 +1,122 @@
+import { Response } from "express";
+import { NotFoundError, ValidationError } from "../errors";
+import { ValidatedRequest } from "../middleware/validate";
+import {
+  addCustomStep,
+  reorderSteps,
+  setStepStatus,
+} from "../services/steps";
+import { plantRequests } from "../validation/plants";
+import { loadOwnedPlant } from "./ownership";
+
+const EDITABLE_FIELDS = ["title", "description", "estimatedTime"] as const;
+
+export const addStep = async (
+  req: ValidatedRequest<typeof plantRequests.addStep>,
+  res: Response
+): Promise<void> => {
+  const { title, description, estimatedTime, afterStepId } = req.body;
+
+  const { plant } = await loadOwnedPlant(req);
+
+  const insertion = addCustomStep(
+    plant,
+    { title, description, estimatedTime },
+    afterStepId
+  );
+
+  if (!insertion) {
+    throw new NotFoundError("Step not found");
+  }
+
+  await plant.save();
+
+  res.status(201).json({
+    message: "Step added successfully",
+    data: plant,
+    stepDiff: insertion,
+  });
+};
+
+export const updateStep = async (
+  req: ValidatedRequest<typeof plantRequests.updateStep>,
+  res: Response
+): Promise<void> => {
+  const { status } = req.body;
+
+  const { plant } = await loadOwnedPlant(req);
+
+  const step = plant.steps.find((s) => s.id === req.params.stepId);
+  if (!step) {
+    throw new NotFoundError("Step not found");
+  }
+
+  EDITABLE_FIELDS.forEach((field) => {
+    const value = req.body[field];
+    if (value !== undefined) {
+      step[field] = value;
+    }
+  });
+
+  if (status !== undefined) {
+    setStepStatus(step, status);
+  }
+
+  await plant.save();
+
+  res.status(200).json({
+    message: "Step updated successfully",
+    data: plant,
+  });
+};
+
+export const deleteStep = async (
+  req: ValidatedRequest<typeof plantRequests.deleteStep>,
+  res: Response
+): Promise<void> => {
+  const { plant } = await loadOwnedPlant(req);
+
+  const index = plant.steps.findIndex((s) => s.id === req.params.stepId);
+  if (index === -1) {
+    throw new NotFoundError("Step not found");
+  }
+
+  // Steps from the guide or a diagnosis are part of the plant's history;
+  // those can be skipped but not removed.
+  if (plant.steps[index].kind !== "custom") {
+    throw new ValidationError(
+      "Only custom steps can be deleted. Skip this step instead."
+    );
+  }
+
+  plant.steps.splice(index, 1);
+  await plant.save();
+
+  res.status(200).json({
+    message: "Step deleted successfully",
+    data: plant,
+  });
+};
+
+export const reorderPlantSteps = async (
+  req: ValidatedRequest<typeof plantRequests.reorderSteps>,
+  res: Response
+): Promise<void> => {
+  const { order } = req.body;
+
+  const { plant } = await loadOwnedPlant(req);
+
+  if (!reorderSteps(plant, order)) {
+    throw new ValidationError(
+      "order must list every step ID of the plant exactly once",
+      { stepIds: plant.steps.map((s) => s.id) }
+    );
+  }
+
+  await plant.save();
+
+  res.status(200).json({
+    message: "Steps reordered successfully",
+    data: plant,
+  });
+};
@@ -0,0 +1,100 @@
+// Errors that carry their HTTP status and a stable, machine-readable code.
+// Controllers and services throw these; the error middleware turns them into
+// the response envelope documented in the README. Anything else thrown is
+// reported as an `internal_error`.
+
+export const ERROR_CODES = [
+  "validation_failed",
+  "unauthenticated",
+  "forbidden",
+  "not_found",
+  "conflict",
+  "payload_too_large",
+  "unsupported_media_type",
+  "rate_limited",
+  "ai_invalid_response",
+  "ai_upstream_error",
+  "internal_error",
+] as const;
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    message: string,
+    // Extra data for the client, returned as `details`
+    public readonly details?: Record<string, unknown>,
+    // Diagnostic text that is logged and only shown outside production,
+    // such as a provider's own error message
+    public readonly internalMessage?: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// The request itself is malformed or fails a rule
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(400, "validation_failed", message, details);
+    this.name = "ValidationError";
+  }
+}
+
+export class AuthenticationError extends ApiError {
+  constructor(message = "User not authenticated") {
+    super(401, "unauthenticated", message);
+    this.name = "AuthenticationError";
+  }
+}
+
+// The resource exists but belongs to someone else
+export class OwnershipError extends ApiError {
+  constructor(message: string) {
+    super(403, "forbidden", message);
+    this.name = "OwnershipError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(404, "not_found", message, details);
+    this.name = "NotFoundError";
+  }
+}
+
+// The request is valid but clashes with the resource's current state
+export class ConflictError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(409, "conflict", message, details);
+    this.name = "ConflictError";
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    // Sent as the Retry-After header when known
+    public readonly retryAfterSeconds?: number,
+    internalMessage?: string
+  ) {
+    super(
+      429,
+      "rate_limited",
+      message,
+      retryAfterSeconds === undefined ? undefined : { retryAfterSeconds },
+      internalMessage
+    );
+    this.name = "RateLimitError";
+  }
+}
+
+// The AI provider failed, refused the request or is not configured. The
+// provider's own message is kept out of the client-facing one.
+export class UpstreamAIError extends ApiError {
+  constructor(message: string, providerMessage?: string) {
+    super(502, "ai_upstream_error", message, undefined, providerMessage);
+    this.name = "UpstreamAIError";
+  }
+}
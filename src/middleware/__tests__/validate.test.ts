@@ -0,0 +1,109 @@
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { ValidationError } from "../../errors";
+import { plantRequests } from "../../validation/plants";
+import { RequestSchemas, validate } from "../validate";
+
+const PLANT_ID = "0123456789abcdef01234567";
+
+// Run the middleware against a bare request and report what it passed on
+const run = (schemas: RequestSchemas, parts: Partial<Request>) => {
+  const req = { params: {}, query: {}, ...parts } as Request;
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+  validate(schemas)(req, {} as Response, next);
+  return { req, error: next.mock.calls[0]?.[0] };
+};
+
+const fieldErrors = (error: unknown) =>
+  (error as ValidationError).details?.errors;
+
+describe("validate", () => {
+  it("replaces each part with its parsed value", () => {
+    const { req, error } = run(plantRequests.journalEntries, {
+      params: { plantId: PLANT_ID },
+      query: { limit: "500" },
+    });
+
+    expect(error).toBeUndefined();
+    expect(req.params).toEqual({ plantId: PLANT_ID });
+    // Converted from the query string and capped at the maximum
+    expect(req.query).toEqual({ limit: 100 });
+  });
+
+  it("applies defaults", () => {
+    const { req } = run(plantRequests.diagnoses, {
+      params: { plantId: PLANT_ID },
+    });
+
+    expect(req.query).toEqual({ page: 1, limit: 20 });
+  });
+
+  it("treats a missing body as an empty one", () => {
+    const { req, error } = run(plantRequests.recommendations, {});
+
+    expect(error).toBeUndefined();
+    expect(req.body).toEqual({});
+  });
+
+  it("reports every invalid field at once", () => {
+    const { error } = run(plantRequests.createJournalEntry, {
+      params: { plantId: "nope" },
+      body: { note: " ", measurements: { heightCm: -1 } },
+    });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ status: 400, code: "validation_failed" });
+    expect(fieldErrors(error)).toEqual([
+      { field: "params.plantId", message: "Must be a 24-character hex string" },
+      { field: "body.note", message: "Must be a non-empty string" },
+      { field: "body.measurements.heightCm", message: expect.any(String) },
+    ]);
+  });
+
+  it("names array elements by index", () => {
+    const { error } = run(plantRequests.reorderSteps, {
+      params: { plantId: PLANT_ID },
+      body: { order: [1, "two"] },
+    });
+
+    expect(fieldErrors(error)).toEqual([
+      { field: "body.order[1]", message: expect.any(String) },
+    ]);
+  });
+
+  it("converts numbers and flags sent as strings", () => {
+    const { req, error } = run(plantRequests.uploadPhoto, {
+      params: { plantId: PLANT_ID },
+      body: { setAsCover: "true" },
+    });
+
+    expect(error).toBeUndefined();
+    expect(req.body).toEqual({ setAsCover: true });
+    expect(
+      run(plantRequests.recommendations, { body: { sunlightHours: "6" } }).req
+        .body
+    ).toEqual({ sunlightHours: 6 });
+  });
+
+  it("does not coerce other types into numbers", () => {
+    [true, [], {}].forEach((sunlightHours) => {
+      const { error } = run(plantRequests.recommendations, {
+        body: { sunlightHours },
+      });
+      expect(fieldErrors(error)).toEqual([
+        {
+          field: "body.sunlightHours",
+          message: "Must be a number between 0 and 24",
+        },
+      ]);
+    });
+  });
+
+  it("leaves parts without a schema untouched", () => {
+    const body = { anything: true };
+    const { req, error } = run({ params: z.object({}) }, { body });
+
+    expect(error).toBeUndefined();
+    expect(req.body).toBe(body);
+  });
+});
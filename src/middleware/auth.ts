@@ -1,5 +1,7 @@
 import { NextFunction, Request, Response } from "express";
 import admin from "../config/firebase";
+import { AuthenticationError } from "../errors";
+import { ensureUser } from "../services/users";
 
 // Extend Express Request type to include auth
 declare global {
@@ -14,6 +16,23 @@ export interface AuthRequest extends Request {
   user?: admin.auth.DecodedIdToken;
 }
 
+// Firebase UIDs already known to have a User document in this process
+const bootstrappedUids = new Set<string>();
+
+// Create the User document on first login so every route can rely on it
+const bootstrapUser = async (decodedToken: admin.auth.DecodedIdToken) => {
+  if (bootstrappedUids.has(decodedToken.uid)) {
+    return;
+  }
+  try {
+    await ensureUser(decodedToken);
+    bootstrappedUids.add(decodedToken.uid);
+  } catch (error) {
+    // Not fatal: routes that need the user fall back to creating it
+    console.error("Error bootstrapping user:", error);
+  }
+};
+
 // Authentication middleware for protected routes
 export const authenticateUser = async (
   req: AuthRequest,
@@ -25,7 +44,7 @@ export const authenticateUser = async (
     const authHeader = req.headers.authorization;
 
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      res.status(401).json({ error: "Unauthorized - No token provided" });
+      next(new AuthenticationError("Unauthorized - No token provided"));
       return;
     }
 
@@ -34,10 +53,10 @@ export const authenticateUser = async (
 
     req.user = decodedToken;
     console.log({ decoded: decodedToken });
+    await bootstrapUser(decodedToken);
     next();
   } catch (error) {
     console.error("Error verifying Firebase token:", error);
-    res.status(401).json({ error: "Unauthorized - Invalid token" });
-    return;
+    next(new AuthenticationError("Unauthorized - Invalid token"));
   }
 };
@@ -0,0 +1,139 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  ApiError,
+  ErrorCode,
+  NotFoundError,
+  RateLimitError,
+} from "../errors";
+
+// Every error response has this shape:
+//
+//   { "message": "...", "code": "not_found", "details": { ... } }
+//
+// `details` is only present when the error carries extra data. Outside
+// production a `debug` object with the underlying message and stack trace is
+// added; in production neither is ever sent.
+export interface ErrorEnvelope {
+  message: string;
+  code: ErrorCode;
+  details?: Record<string, unknown>;
+  debug?: {
+    error: string;
+    stack?: string;
+  };
+}
+
+// Errors raised by Express and body-parser (malformed JSON, oversized
+// bodies) carry a client status of their own
+interface HttpError extends Error {
+  status?: number;
+  statusCode?: number;
+  expose?: boolean;
+  type?: string;
+}
+
+const HTTP_ERROR_CODES: Record<number, ErrorCode> = {
+  400: "validation_failed",
+  401: "unauthenticated",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  413: "payload_too_large",
+  415: "unsupported_media_type",
+  429: "rate_limited",
+};
+
+const toApiError = (error: unknown): ApiError | null => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const httpError = error as HttpError;
+  const status = httpError?.status ?? httpError?.statusCode;
+  if (httpError?.expose && status && HTTP_ERROR_CODES[status]) {
+    // The JSON parser's own message points into the raw body
+    const message =
+      httpError.type === "entity.parse.failed"
+        ? "Request body is not valid JSON"
+        : httpError.message;
+    return new ApiError(
+      status,
+      HTTP_ERROR_CODES[status],
+      message,
+      undefined,
+      httpError.message
+    );
+  }
+
+  return null;
+};
+
+const isProduction = (): boolean => process.env.NODE_ENV === "production";
+
+// Answers requests no route matched
+export const notFoundHandler = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`));
+};
+
+// Status and envelope for an error, e.g. for reporting it over a stream
+// that has already started
+export const toErrorEnvelope = (
+  error: unknown
+): { status: number; body: ErrorEnvelope } => {
+  const apiError = toApiError(error);
+
+  const body: ErrorEnvelope = apiError
+    ? { message: apiError.message, code: apiError.code }
+    : { message: "Internal server error", code: "internal_error" };
+  if (apiError?.details) {
+    body.details = apiError.details;
+  }
+
+  if (!isProduction()) {
+    const original = error instanceof Error ? error : undefined;
+    body.debug = {
+      error: apiError?.internalMessage || original?.message || String(error),
+      stack: original?.stack,
+    };
+  }
+
+  return { status: apiError?.status ?? 500, body };
+};
+
+// Turn anything thrown by a route into the error envelope
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  // A response that has already started can only be cut short
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  const { status, body } = toErrorEnvelope(error);
+
+  if (status >= 500) {
+    console.error(`Error handling ${req.method} ${req.originalUrl}:`, error);
+  } else if (error instanceof ApiError && error.internalMessage) {
+    console.warn(
+      `${req.method} ${req.originalUrl} failed with ${error.code}:`,
+      error.internalMessage
+    );
+  }
+
+  if (
+    error instanceof RateLimitError &&
+    error.retryAfterSeconds !== undefined
+  ) {
+    res.setHeader("Retry-After", String(error.retryAfterSeconds));
+  }
+
+  res.status(status).json(body);
+};
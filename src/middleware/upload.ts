@@ -0,0 +1,85 @@
+import { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import { parsePositiveNumber } from "../config/env";
+import { ApiError, ValidationError } from "../errors";
+import { detectImageType, SupportedImageType } from "../services/imageType";
+
+const DEFAULT_MAX_UPLOAD_MB = 10;
+
+export const maxUploadBytes = (): number =>
+  parsePositiveNumber(process.env.MAX_UPLOAD_MB, DEFAULT_MAX_UPLOAD_MB) *
+  1024 *
+  1024;
+
+// Accept a single image in the `image` field of a multipart/form-data body.
+// Requests with any other content type pass through untouched.
+export const uploadImage = (field = "image") => {
+  const handler = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxUploadBytes(), files: 1 },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === "LIMIT_FILE_SIZE") {
+          next(
+            new ApiError(413, "payload_too_large", "Image is too large", {
+              maxBytes: maxUploadBytes(),
+            })
+          );
+          return;
+        }
+        next(
+          new ValidationError("Invalid image upload", {
+            reason: `${error.message}${error.field ? ` (${error.field})` : ""}`,
+          })
+        );
+        return;
+      }
+      next(error);
+    });
+  };
+};
+
+export interface UploadedImage {
+  buffer: Buffer;
+  mimeType: SupportedImageType;
+}
+
+// Read the image from a multipart upload or an `imageBase64` JSON field and
+// check its size and real type. Throws when there is no usable image.
+export const readUploadedImage = (req: Request): UploadedImage => {
+  const { imageBase64 } = req.body || {};
+
+  if (!req.file && !imageBase64) {
+    throw new ValidationError("Image data is required");
+  }
+
+  const buffer = req.file
+    ? req.file.buffer
+    : // Trim data URL prefix if present
+      Buffer.from(
+        String(imageBase64).replace(/^data:image\/[\w+.-]+;base64,/, ""),
+        "base64"
+      );
+
+  if (buffer.length > maxUploadBytes()) {
+    throw new ApiError(413, "payload_too_large", "Image is too large", {
+      maxBytes: maxUploadBytes(),
+    });
+  }
+
+  // Trust the file's magic bytes, not the declared content type
+  const mimeType = detectImageType(buffer);
+  if (!mimeType) {
+    throw new ApiError(
+      415,
+      "unsupported_media_type",
+      "Unsupported image type",
+      { supported: ["image/png", "image/jpeg", "image/webp", "image/heic"] }
+    );
+  }
+
+  return { buffer, mimeType };
+};
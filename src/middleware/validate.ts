@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response } from "express";
+import { z, ZodError, ZodTypeAny } from "zod";
+import { ValidationError } from "../errors";
+
+// Schemas for the parts of a request a route accepts. Parts without a
+// schema are passed through unchecked.
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+type RequestPart = keyof RequestSchemas;
+
+type ValidatedPart<
+  S extends RequestSchemas,
+  K extends RequestPart,
+  Fallback
+> = S extends { [P in K]: infer T extends ZodTypeAny } ? z.output<T> : Fallback;
+
+// A request that has passed `validate(schemas)`, typed from the schemas.
+// `user` comes from the authentication middleware.
+export type ValidatedRequest<S extends RequestSchemas> = Request<
+  ValidatedPart<S, "params", Request["params"]>,
+  any,
+  ValidatedPart<S, "body", Request["body"]>,
+  ValidatedPart<S, "query", Request["query"]>
+>;
+
+export interface RequestFieldError {
+  field: string;
+  message: string;
+}
+
+const REQUEST_PARTS: RequestPart[] = ["params", "query", "body"];
+
+// "body.measurements.heightCm", "body.order[2]"
+const formatField = (part: RequestPart, path: (string | number)[]): string =>
+  path.reduce<string>(
+    (acc, key) => (typeof key === "number" ? `${acc}[${key}]` : `${acc}.${key}`),
+    part
+  );
+
+const toFieldErrors = (
+  part: RequestPart,
+  error: ZodError
+): RequestFieldError[] =>
+  error.issues.map((issue) => ({
+    field: formatField(part, issue.path),
+    message: issue.message,
+  }));
+
+// Check a request against `schemas` and replace each part with its parsed
+// value, so defaults and coercions apply. Every problem is reported at once
+// as a 400 with one entry per field.
+export const validate =
+  <S extends RequestSchemas>(schemas: S) =>
+  (req: ValidatedRequest<S>, res: Response, next: NextFunction): void => {
+    const errors: RequestFieldError[] = [];
+    const parsed: Partial<Record<RequestPart, unknown>> = {};
+
+    REQUEST_PARTS.forEach((part) => {
+      const schema = schemas[part];
+      if (!schema) {
+        return;
+      }
+      const result = schema.safeParse(req[part]);
+      if (result.success) {
+        parsed[part] = result.data;
+      } else {
+        errors.push(...toFieldErrors(part, result.error));
+      }
+    });
+
+    if (errors.length > 0) {
+      next(new ValidationError("Invalid request", { errors }));
+      return;
+    }
+
+    REQUEST_PARTS.forEach((part) => {
+      if (part in parsed) {
+        // `query` is a getter in Express 5, so shadow it on the request
+        Object.defineProperty(req, part, {
+          value: parsed[part],
+          writable: true,
+          configurable: true,
+          enumerable: true,
+        });
+      }
+    });
+    next();
+  };
@@ -0,0 +1,131 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export const CHAT_ROLES = ['user', 'assistant'] as const;
+export type ChatRole = typeof CHAT_ROLES[number];
+
+// Step changes the assistant can suggest. Nothing is applied until the
+// user confirms the proposal; guide steps are skipped rather than removed.
+export const STEP_PROPOSAL_ACTIONS = ['add', 'update', 'skip'] as const;
+export type StepProposalAction = typeof STEP_PROPOSAL_ACTIONS[number];
+
+export const PROPOSAL_STATUSES = ['pending', 'applied', 'dismissed'] as const;
+export type ProposalStatus = typeof PROPOSAL_STATUSES[number];
+
+export interface IStepProposal {
+  _id: Types.ObjectId;
+  action: StepProposalAction;
+  // Step to update or skip
+  stepId?: number;
+  // Where to add a new step; the end of the list when omitted
+  afterStepId?: number;
+  title?: string;
+  description?: string;
+  estimatedTime?: string;
+  reason: string;
+  status: ProposalStatus;
+  resolvedAt?: Date;
+  // Id of the step the change ended up on, once applied
+  appliedStepId?: number;
+}
+
+// One message of a plant's chat thread. A thread is every message for a
+// plant and user, oldest first.
+export interface IChatMessage extends Document {
+  user: Types.ObjectId;
+  plant: Types.ObjectId;
+  role: ChatRole;
+  content: string;
+  proposals: IStepProposal[];
+  // Which model and prompt revision wrote an assistant message
+  generation?: {
+    model?: string;
+    promptVersion?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const stepProposalSchema = new Schema({
+  action: {
+    type: String,
+    enum: STEP_PROPOSAL_ACTIONS,
+    required: true
+  },
+  stepId: {
+    type: Number,
+    required: false
+  },
+  afterStepId: {
+    type: Number,
+    required: false
+  },
+  title: {
+    type: String,
+    required: false
+  },
+  description: {
+    type: String,
+    required: false
+  },
+  estimatedTime: {
+    type: String,
+    required: false
+  },
+  reason: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: PROPOSAL_STATUSES,
+    default: 'pending'
+  },
+  resolvedAt: {
+    type: Date,
+    required: false
+  },
+  appliedStepId: {
+    type: Number,
+    required: false
+  }
+});
+
+const chatMessageSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  plant: {
+    type: Schema.Types.ObjectId,
+    ref: 'Plant',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: CHAT_ROLES,
+    required: true
+  },
+  content: {
+    type: String,
+    required: true
+  },
+  proposals: [stepProposalSchema],
+  generation: {
+    model: {
+      type: String,
+      required: false
+    },
+    promptVersion: {
+      type: String,
+      required: false
+    }
+  }
+}, {
+  timestamps: true
+});
+
+chatMessageSchema.index({ plant: 1, user: 1, createdAt: 1 });
+chatMessageSchema.index({ 'proposals._id': 1 });
+
+export default model<IChatMessage>('ChatMessage', chatMessageSchema);
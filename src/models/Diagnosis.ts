@@ -0,0 +1,115 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface IDiagnosis extends Document {
+  plant: Types.ObjectId;
+  user: Types.ObjectId;
+  // AI output
+  healthCondition: string;
+  issues: string[];
+  recommendations: string[];
+  growthStage: string;
+  needsTreatment: boolean;
+  treatmentSteps: Array<{
+    title: string;
+    description: string;
+    estimatedTime: string;
+  }>;
+  // Reference to the analysed image
+  image: {
+    photo?: Types.ObjectId;
+    sha256: string;
+    mimeType: string;
+    size: number;
+  };
+  // Which model and prompt revision produced the analysis
+  generation?: {
+    model?: string;
+    promptVersion?: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const diagnosisSchema = new Schema({
+  plant: {
+    type: Schema.Types.ObjectId,
+    ref: 'Plant',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // AI output
+  healthCondition: {
+    type: String,
+    required: true
+  },
+  issues: [{
+    type: String
+  }],
+  recommendations: [{
+    type: String
+  }],
+  growthStage: {
+    type: String,
+    required: true
+  },
+  needsTreatment: {
+    type: Boolean,
+    default: false
+  },
+  treatmentSteps: [{
+    _id: false,
+    title: {
+      type: String,
+      required: true
+    },
+    description: {
+      type: String,
+      required: true
+    },
+    estimatedTime: {
+      type: String,
+      required: true
+    }
+  }],
+  // Reference to the analysed image
+  image: {
+    photo: {
+      type: Schema.Types.ObjectId,
+      ref: 'Photo',
+      required: false
+    },
+    sha256: {
+      type: String,
+      required: true
+    },
+    mimeType: {
+      type: String,
+      required: true
+    },
+    size: {
+      type: Number,
+      required: true
+    }
+  },
+  generation: {
+    model: {
+      type: String,
+      required: false
+    },
+    promptVersion: {
+      type: String,
+      required: false
+    }
+  }
+}, {
+  timestamps: true
+});
+
+// Timeline queries list a plant's diagnoses newest first
+diagnosisSchema.index({ plant: 1, createdAt: -1 });
+
+export default model<IDiagnosis>('Diagnosis', diagnosisSchema);
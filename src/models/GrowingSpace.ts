@@ -0,0 +1,72 @@
+import { Schema, model, Document, Types } from 'mongoose';
+import { SPACE_TYPES, SpaceType } from './User';
+
+export const CONTAINER_TYPES = [
+  'in-ground',
+  'raised-bed',
+  'pot',
+  'planter',
+  'window-box',
+  'grow-bag',
+  'hanging-basket',
+  'hydroponic'
+] as const;
+export type ContainerType = typeof CONTAINER_TYPES[number];
+
+// A place where the user grows plants, e.g. "Kitchen windowsill"
+export interface IGrowingSpace extends Document {
+  user: Types.ObjectId;
+  name: string;
+  spaceType: SpaceType;
+  sunlightHours: number;
+  // Usable growing area in square metres
+  areaSqM: number;
+  indoor: boolean;
+  containerType: ContainerType;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const growingSpaceSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  spaceType: {
+    type: String,
+    enum: SPACE_TYPES,
+    required: true
+  },
+  sunlightHours: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 24
+  },
+  areaSqM: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  indoor: {
+    type: Boolean,
+    required: true
+  },
+  containerType: {
+    type: String,
+    enum: CONTAINER_TYPES,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+growingSpaceSchema.index({ user: 1, name: 1 });
+
+export default model<IGrowingSpace>('GrowingSpace', growingSpaceSchema);
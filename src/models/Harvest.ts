@@ -0,0 +1,61 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export const HARVEST_UNITS = ['g', 'kg', 'oz', 'lb', 'count'] as const;
+export type HarvestUnit = typeof HARVEST_UNITS[number];
+
+export interface IHarvest extends Document {
+  user: Types.ObjectId;
+  plant: Types.ObjectId;
+  harvestedAt: Date;
+  quantity: number;
+  unit: HarvestUnit;
+  // 1 (poor) to 5 (excellent)
+  qualityRating?: number;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const harvestSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  plant: {
+    type: Schema.Types.ObjectId,
+    ref: 'Plant',
+    required: true
+  },
+  harvestedAt: {
+    type: Date,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  unit: {
+    type: String,
+    enum: HARVEST_UNITS,
+    required: true
+  },
+  qualityRating: {
+    type: Number,
+    min: 1,
+    max: 5,
+    required: false
+  },
+  note: {
+    type: String,
+    required: false
+  }
+}, {
+  timestamps: true
+});
+
+harvestSchema.index({ plant: 1, harvestedAt: -1 });
+harvestSchema.index({ user: 1 });
+
+export default model<IHarvest>('Harvest', harvestSchema);
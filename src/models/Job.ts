@@ -0,0 +1,117 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export const JOB_TYPES = ['recommendations'] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface IJobProgress {
+  stage: string;
+  // 0-100
+  percent: number;
+}
+
+export interface IJobError {
+  message: string;
+  // Extra detail for clients, e.g. the fields an AI response got wrong
+  details?: unknown;
+}
+
+// Background work stored in MongoDB and run by the job worker
+export interface IJob extends Document {
+  user: Types.ObjectId;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  progress: IJobProgress;
+  result?: Record<string, unknown>;
+  error?: IJobError;
+  attempts: number;
+  maxAttempts: number;
+  // Earliest time the job may be picked up, pushed back between retries
+  runAt: Date;
+  // Set while a worker holds the job; refreshed as it reports progress
+  lockedAt?: Date;
+  lockedBy?: string;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: JOB_TYPES,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: JOB_STATUSES,
+    default: 'queued'
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  progress: {
+    stage: {
+      type: String,
+      default: 'queued'
+    },
+    percent: {
+      type: Number,
+      default: 0
+    }
+  },
+  result: {
+    type: Schema.Types.Mixed,
+    required: false
+  },
+  error: {
+    type: new Schema({
+      message: {
+        type: String,
+        required: true
+      },
+      details: Schema.Types.Mixed
+    }, { _id: false }),
+    required: false
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    required: true
+  },
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedAt: {
+    type: Date,
+    required: false
+  },
+  lockedBy: {
+    type: String,
+    required: false
+  },
+  finishedAt: {
+    type: Date,
+    required: false
+  }
+}, {
+  timestamps: true
+});
+
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ status: 1, lockedAt: 1 });
+
+export default model<IJob>('Job', jobSchema);
@@ -0,0 +1,64 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export interface IJournalEntry extends Document {
+  user: Types.ObjectId;
+  plant: Types.ObjectId;
+  note: string;
+  photo?: Types.ObjectId;
+  measurements?: {
+    heightCm?: number;
+    leafCount?: number;
+    yieldWeightGrams?: number;
+  };
+  // Id of the plant step this entry is about
+  stepId?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const journalEntrySchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  plant: {
+    type: Schema.Types.ObjectId,
+    ref: 'Plant',
+    required: true
+  },
+  note: {
+    type: String,
+    required: true
+  },
+  photo: {
+    type: Schema.Types.ObjectId,
+    ref: 'Photo',
+    required: false
+  },
+  measurements: {
+    heightCm: {
+      type: Number,
+      min: 0
+    },
+    leafCount: {
+      type: Number,
+      min: 0
+    },
+    yieldWeightGrams: {
+      type: Number,
+      min: 0
+    }
+  },
+  stepId: {
+    type: Number,
+    required: false
+  }
+}, {
+  timestamps: true
+});
+
+// Entries are listed newest first, paging on (createdAt, _id)
+journalEntrySchema.index({ plant: 1, createdAt: -1, _id: -1 });
+
+export default model<IJournalEntry>('JournalEntry', journalEntrySchema);
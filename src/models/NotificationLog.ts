@@ -0,0 +1,58 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export type NotificationType = 'step-due' | 'step-overdue' | 'diagnosis-follow-up';
+
+// One document per reminder pushed, so the worker never sends the same
+// reminder twice
+export interface INotificationLog extends Document {
+  user: Types.ObjectId;
+  plant: Types.ObjectId;
+  type: NotificationType;
+  // Identifies the reminder, e.g. the step and due date it was sent for
+  key: string;
+  title: string;
+  body: string;
+  deliveredTo: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationLogSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  plant: {
+    type: Schema.Types.ObjectId,
+    ref: 'Plant',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['step-due', 'step-overdue', 'diagnosis-follow-up'],
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  body: {
+    type: String,
+    required: true
+  },
+  deliveredTo: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+notificationLogSchema.index({ user: 1, key: 1 }, { unique: true });
+
+export default model<INotificationLog>('NotificationLog', notificationLogSchema);
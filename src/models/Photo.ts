@@ -0,0 +1,57 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export type PhotoKind = 'diagnosis' | 'progress';
+
+export interface IPhoto extends Document {
+  user: Types.ObjectId;
+  plant: Types.ObjectId;
+  kind: PhotoKind;
+  // Location of the file in the storage backend
+  key: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const photoSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  plant: {
+    type: Schema.Types.ObjectId,
+    ref: 'Plant',
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['diagnosis', 'progress'],
+    required: true
+  },
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  sha256: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+photoSchema.index({ plant: 1, createdAt: -1 });
+
+export default model<IPhoto>('Photo', photoSchema);
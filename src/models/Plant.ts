@@ -1,24 +1,173 @@
-import { Schema, model, Document } from 'mongoose';
+import { Schema, model, Document, Types } from 'mongoose';
+import { IRecommendationConditions } from './RecommendationCache';
+
+// Journey steps come from the original guide; treatment steps are inserted
+// later by a diagnosis and keep a reference to it; custom steps are added by
+// the user.
+export type StepKind = 'journey' | 'treatment' | 'custom';
+
+export const STEP_STATUSES = ['pending', 'in-progress', 'done', 'skipped'] as const;
+export type StepStatus = typeof STEP_STATUSES[number];
+
+export interface IPlantStep {
+  id: number;
+  title: string;
+  description: string;
+  estimatedTime: string;
+  // Kept in sync with status for older clients
+  isCompleted: boolean;
+  status: StepStatus;
+  completedAt?: Date;
+  kind: StepKind;
+  diagnosis?: Types.ObjectId;
+}
+
+// Care changes suggested by the daily forecast check. Flags with a stepId
+// apply to that step; the rest apply to the plant as a whole.
+export const WEATHER_ACTIONS = ['skip-watering', 'protect-from-frost'] as const;
+export type WeatherAction = typeof WEATHER_ACTIONS[number];
+
+export interface IWeatherFlag {
+  action: WeatherAction;
+  stepId?: number;
+  // Forecast day (YYYY-MM-DD, UTC) the flag is about
+  date: string;
+  reason: string;
+}
+
+// Normalised conditions a shared template was generated for. Templates keep
+// no requester's own location or sunlight hours.
+export interface ITemplateConditions extends IRecommendationConditions {
+  model?: string;
+  promptVersion?: string;
+}
+
+// Conditions the plant's guide was generated for
+export interface IGrowingContext {
+  location: string;
+  sunlightHours: number;
+  availableSpace: string;
+  hardinessZone?: string;
+  // Which model and prompt revision produced the guide
+  model?: string;
+  promptVersion?: string;
+}
 
 export interface IPlant extends Document {
   plantName: string;
   description: string;
   successRate: string;
   imageUrl: string;
-  steps: Array<{
-    id: number;
-    title: string;
-    description: string;
-    estimatedTime: string;
-    isCompleted: boolean;
-  }>;
+  steps: IPlantStep[];
+  // Highest step id ever handed out for this plant
+  lastStepId: number;
   difficultyLevel: string;
   isValid: boolean;
   isActive: boolean;
+  // Photos uploaded by the owner; imageUrl remains the generated placeholder
+  coverPhoto?: Types.ObjectId;
+  gallery: Types.ObjectId[];
+  // Latest activation; the care schedule counts from it
+  activatedAt?: Date;
+  // First activation, kept across deactivation for the stats
+  firstActivatedAt?: Date;
+  // Growing space the plant is assigned to
+  space?: Types.ObjectId;
+  // Catalog species the plant was matched to, if any
+  species?: Types.ObjectId;
+  // Shared recommendation from the cache, owned by nobody. Users get their
+  // own copy, pointing back through sourceTemplate, when they activate it.
+  isTemplate: boolean;
+  templateExpiresAt?: Date;
+  sourceTemplate?: Types.ObjectId;
+  templateConditions?: ITemplateConditions;
+  growingContext?: IGrowingContext;
+  weatherFlags: IWeatherFlag[];
+  weatherCheckedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const growingContextSchema = new Schema({
+  location: {
+    type: String,
+    required: true
+  },
+  sunlightHours: {
+    type: Number,
+    required: true
+  },
+  availableSpace: {
+    type: String,
+    required: true
+  },
+  hardinessZone: {
+    type: String,
+    required: false
+  },
+  model: {
+    type: String,
+    required: false
+  },
+  promptVersion: {
+    type: String,
+    required: false
+  }
+}, {
+  _id: false
+});
+
+const templateConditionsSchema = new Schema({
+  location: {
+    type: String,
+    required: true
+  },
+  hardinessZone: {
+    type: String,
+    required: true
+  },
+  sunlightBucket: {
+    type: String,
+    required: true
+  },
+  space: {
+    type: String,
+    required: true
+  },
+  model: {
+    type: String,
+    required: false
+  },
+  promptVersion: {
+    type: String,
+    required: false
+  }
+}, {
+  _id: false
+});
+
+const weatherFlagSchema = new Schema({
+  action: {
+    type: String,
+    enum: WEATHER_ACTIONS,
+    required: true
+  },
+  stepId: {
+    type: Number,
+    required: false
+  },
+  date: {
+    type: String,
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true
+  }
+}, {
+  _id: false
+});
+
 const plantSchema = new Schema({
   plantName: {
     type: String,
@@ -56,8 +205,34 @@ const plantSchema = new Schema({
     isCompleted: {
       type: Boolean,
       default: false
+    },
+    status: {
+      type: String,
+      enum: STEP_STATUSES,
+      // Steps saved before statuses existed only have isCompleted
+      default: function (this: { isCompleted?: boolean }) {
+        return this.isCompleted ? 'done' : 'pending';
+      }
+    },
+    completedAt: {
+      type: Date,
+      required: false
+    },
+    kind: {
+      type: String,
+      enum: ['journey', 'treatment', 'custom'],
+      default: 'journey'
+    },
+    diagnosis: {
+      type: Schema.Types.ObjectId,
+      ref: 'Diagnosis',
+      required: false
     }
   }],
+  lastStepId: {
+    type: Number,
+    default: 0
+  },
   difficultyLevel: {
     type: String,
     required: true
@@ -69,9 +244,68 @@ const plantSchema = new Schema({
   isActive: {
     type: Boolean,
     default: false
+  },
+  activatedAt: {
+    type: Date,
+    required: false
+  },
+  firstActivatedAt: {
+    type: Date,
+    required: false
+  },
+  coverPhoto: {
+    type: Schema.Types.ObjectId,
+    ref: 'Photo',
+    required: false
+  },
+  space: {
+    type: Schema.Types.ObjectId,
+    ref: 'GrowingSpace',
+    required: false
+  },
+  species: {
+    type: Schema.Types.ObjectId,
+    ref: 'Species',
+    required: false
+  },
+  isTemplate: {
+    type: Boolean,
+    default: false
+  },
+  templateExpiresAt: {
+    type: Date,
+    required: false
+  },
+  sourceTemplate: {
+    type: Schema.Types.ObjectId,
+    ref: 'Plant',
+    required: false
+  },
+  gallery: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Photo'
+  }],
+  templateConditions: {
+    type: templateConditionsSchema,
+    required: false
+  },
+  growingContext: {
+    type: growingContextSchema,
+    required: false
+  },
+  weatherFlags: {
+    type: [weatherFlagSchema],
+    default: []
+  },
+  weatherCheckedAt: {
+    type: Date,
+    required: false
   }
 }, {
   timestamps: true
 });
 
+// Only templates carry templateExpiresAt, so nothing else is expired
+plantSchema.index({ templateExpiresAt: 1 }, { expireAfterSeconds: 0 });
+
 export default model<IPlant>('Plant', plantSchema); 
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+// Normalised growing conditions a set of recommendations was generated for
+export interface IRecommendationConditions {
+  location: string;
+  hardinessZone: string;
+  sunlightBucket: string;
+  space: string;
+}
+
+export interface IRecommendationCache extends Document {
+  key: string;
+  conditions: IRecommendationConditions;
+  // Template plants, in the order the model returned them
+  plants: Types.ObjectId[];
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const recommendationCacheSchema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  conditions: {
+    location: {
+      type: String,
+      required: true
+    },
+    hardinessZone: {
+      type: String,
+      required: true
+    },
+    sunlightBucket: {
+      type: String,
+      required: true
+    },
+    space: {
+      type: String,
+      required: true
+    }
+  },
+  plants: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Plant'
+  }],
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+recommendationCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IRecommendationCache>('RecommendationCache', recommendationCacheSchema);
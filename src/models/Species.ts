@@ -0,0 +1,83 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const SUN_REQUIREMENTS = ['full-sun', 'partial-shade', 'shade'] as const;
+export type SunRequirement = typeof SUN_REQUIREMENTS[number];
+
+export const WATER_NEEDS = ['low', 'moderate', 'high'] as const;
+export type WaterNeeds = typeof WATER_NEEDS[number];
+
+// Canonical catalog record, seeded from src/data/species.json
+export interface ISpecies extends Document {
+  slug: string;
+  commonName: string;
+  aliases: string[];
+  scientificName: string;
+  family: string;
+  sunRequirement: SunRequirement;
+  minSunlightHours: number;
+  waterNeeds: WaterNeeds;
+  daysToMaturity: {
+    min: number;
+    max: number;
+  };
+  // Normalised common name and aliases, used for matching and search
+  searchTerms: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const speciesSchema = new Schema({
+  slug: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  commonName: {
+    type: String,
+    required: true
+  },
+  aliases: [{
+    type: String
+  }],
+  scientificName: {
+    type: String,
+    required: true
+  },
+  family: {
+    type: String,
+    required: true
+  },
+  sunRequirement: {
+    type: String,
+    enum: SUN_REQUIREMENTS,
+    required: true
+  },
+  minSunlightHours: {
+    type: Number,
+    required: true
+  },
+  waterNeeds: {
+    type: String,
+    enum: WATER_NEEDS,
+    required: true
+  },
+  daysToMaturity: {
+    min: {
+      type: Number,
+      required: true
+    },
+    max: {
+      type: Number,
+      required: true
+    }
+  },
+  searchTerms: [{
+    type: String
+  }]
+}, {
+  timestamps: true
+});
+
+speciesSchema.index({ searchTerms: 1 });
+
+export default model<ISpecies>('Species', speciesSchema);
@@ -1,5 +1,38 @@
 import { Schema, model, Document, Types } from 'mongoose';
 import { IPlant } from './Plant';
+import { LocationDetails } from '../services/geo';
+
+// Space types accepted by the survey profile API
+export const SPACE_TYPES = [
+  'windowsill',
+  'indoor',
+  'balcony',
+  'patio',
+  'rooftop',
+  'backyard',
+  'raised-bed',
+  'greenhouse',
+  'community-garden'
+] as const;
+export type SpaceType = typeof SPACE_TYPES[number];
+
+export interface IDeviceToken {
+  token: string;
+  platform?: string;
+  lastSeenAt: Date;
+}
+
+export interface INotificationPreferences {
+  // Local "HH:mm" window during which no reminders are pushed
+  quietHours?: {
+    start: string;
+    end: string;
+  };
+  // IANA time zone used for quiet hours, e.g. "Europe/London"
+  timezone: string;
+  // Plants the user opted out of reminders for
+  mutedPlants: Types.ObjectId[];
+}
 
 export interface IUser extends Document {
   firebaseUid: string;
@@ -8,8 +41,13 @@ export interface IUser extends Document {
   location: string;
   sunlightHours: number;
   availableSpace: string;
+  // Structured form of `location`, resolved against the bundled place dataset
+  locationDetails?: LocationDetails;
   // References to user's plants
   plants: Types.ObjectId[] | IPlant[];
+  // Push notifications
+  deviceTokens: IDeviceToken[];
+  notificationPreferences: INotificationPreferences;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,11 +76,80 @@ const userSchema = new Schema({
     type: String,
     required: false
   },
+  locationDetails: {
+    type: new Schema({
+      coordinates: {
+        lat: {
+          type: Number,
+          required: true
+        },
+        lon: {
+          type: Number,
+          required: true
+        }
+      },
+      city: String,
+      region: String,
+      country: String,
+      countryCode: String,
+      climate: {
+        type: new Schema({
+          hardinessZone: String,
+          lastFrost: String,
+          firstFrost: String,
+          frostFree: Boolean,
+          referencePlace: String,
+          distanceKm: Number
+        }, { _id: false }),
+        required: false
+      }
+    }, { _id: false }),
+    required: false
+  },
   // References to user's plants
   plants: [{
     type: Schema.Types.ObjectId,
     ref: 'Plant'
-  }]
+  }],
+  // Push notifications
+  deviceTokens: [{
+    _id: false,
+    token: {
+      type: String,
+      required: true
+    },
+    platform: {
+      type: String,
+      required: false
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  notificationPreferences: {
+    quietHours: {
+      type: new Schema({
+        start: {
+          type: String,
+          required: true
+        },
+        end: {
+          type: String,
+          required: true
+        }
+      }, { _id: false }),
+      required: false
+    },
+    timezone: {
+      type: String,
+      default: 'UTC'
+    },
+    mutedPlants: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Plant'
+    }]
+  }
 }, {
   timestamps: true
 });
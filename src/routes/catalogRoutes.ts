@@ -0,0 +1,10 @@
+import express from 'express';
+import { getSpecies, searchCatalog } from '../controllers/catalogController';
+
+// Authentication is applied to everything under /api in app.ts
+const router = express.Router();
+
+router.get('/', searchCatalog);
+router.get('/:slug', getSpecies);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from 'express';
+import { serveSignedFile } from '../controllers/photoController';
+
+// Public: access is granted by the signature in the URL
+const router = express.Router();
+
+router.get('/*key', serveSignedFile);
+
+export default router;
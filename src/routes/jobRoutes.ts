@@ -0,0 +1,9 @@
+import express from 'express';
+import { getJob } from '../controllers/jobController';
+
+// Authentication is applied to everything under /api in app.ts
+const router = express.Router();
+
+router.get('/:jobId', getJob);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from 'express';
+import {
+  getNotificationPreferences,
+  registerDevice,
+  setPlantReminders,
+  unregisterDevice,
+  updateNotificationPreferences
+} from '../controllers/notificationController';
+
+// Authentication is applied to everything under /api in app.ts
+const router = express.Router();
+
+router.post('/devices', registerDevice);
+router.delete('/devices/:token', unregisterDevice);
+router.get('/preferences', getNotificationPreferences);
+router.put('/preferences', updateNotificationPreferences);
+router.put('/plants/:plantId', setPlantReminders);
+
+export default router;
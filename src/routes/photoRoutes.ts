@@ -0,0 +1,9 @@
+import express from 'express';
+import { getPhoto } from '../controllers/photoController';
+
+// Authentication is applied to everything under /api in app.ts
+const router = express.Router();
+
+router.get('/:photoId', getPhoto);
+
+export default router;
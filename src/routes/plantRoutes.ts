@@ -1,5 +1,8 @@
 import express from 'express';
 import { authenticateUser } from '../middleware/auth';
+import { uploadImage } from '../middleware/upload';
+import { validate } from '../middleware/validate';
+import { plantRequests as schemas } from '../validation/plants';
 import {
   getPlantRecommendations,
   togglePlantActiveStatus,
@@ -9,6 +12,36 @@ import {
   analyzePlantImage
 } from '../controllers/plantController';
 import { getCustomPlantRecommendation } from "../controllers/customPlantController";
+import { streamPlantRecommendations } from "../controllers/recommendationStreamController";
+import { getPlantDiagnoses } from "../controllers/diagnosisController";
+import {
+  getPlantChat,
+  resolveChatProposal,
+  sendPlantChatMessage
+} from "../controllers/chatController";
+import {
+  createHarvest,
+  deleteHarvest,
+  getHarvests
+} from "../controllers/harvestController";
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  getJournalEntries
+} from "../controllers/journalController";
+import {
+  deletePlantPhoto,
+  listPlantPhotos,
+  setPlantCover,
+  uploadPlantPhoto
+} from "../controllers/photoController";
+import { assignPlantSpace } from "../controllers/spaceController";
+import {
+  addStep,
+  deleteStep,
+  reorderPlantSteps,
+  updateStep
+} from "../controllers/stepController";
 
 const router = express.Router();
 
@@ -16,15 +49,45 @@ const router = express.Router();
 router.use(authenticateUser);
 
 // Plant image analysis route (must come before /:id)
-router.post('/:plantId/diagnose', analyzePlantImage);
+router.post('/:plantId/diagnose', uploadImage('image'), validate(schemas.diagnose), analyzePlantImage);
+router.get('/:plantId/diagnoses', validate(schemas.diagnoses), getPlantDiagnoses);
 
 // Plant recommendation routes
-router.post('/recommendations', getPlantRecommendations);
-router.post('/custom', getCustomPlantRecommendation);
+router.post('/recommendations', validate(schemas.recommendations), getPlantRecommendations);
+router.get('/recommendations/stream', validate(schemas.recommendationStream), streamPlantRecommendations);
+router.post('/custom', validate(schemas.customPlant), getCustomPlantRecommendation);
 // Plant management routes
 router.get('/active', getActivePlantRecommendations);
-router.get('/:id', getPlantDetail);
-router.patch('/:id/activate', togglePlantActiveStatus);
-router.patch('/:plantId/steps/:stepId/complete', markStepAsCompleted);
+router.get('/:id', validate(schemas.plantDetail), getPlantDetail);
+router.patch('/:id/activate', validate(schemas.toggleActive), togglePlantActiveStatus);
+router.patch('/:plantId/steps/:stepId/complete', validate(schemas.completeStep), markStepAsCompleted);
+router.put('/:plantId/space', validate(schemas.assignSpace), assignPlantSpace);
+
+// Plant photo routes
+router.post('/:plantId/photos', uploadImage('image'), validate(schemas.uploadPhoto), uploadPlantPhoto);
+router.get('/:plantId/photos', validate(schemas.listPhotos), listPlantPhotos);
+router.delete('/:plantId/photos/:photoId', validate(schemas.deletePhoto), deletePlantPhoto);
+router.patch('/:plantId/cover', validate(schemas.setCover), setPlantCover);
+
+// Progress journal routes
+router.post('/:plantId/journal', uploadImage('image'), validate(schemas.createJournalEntry), createJournalEntry);
+router.get('/:plantId/journal', validate(schemas.journalEntries), getJournalEntries);
+router.delete('/:plantId/journal/:entryId', validate(schemas.deleteJournalEntry), deleteJournalEntry);
+
+// Harvest routes
+router.post('/:plantId/harvests', validate(schemas.createHarvest), createHarvest);
+router.get('/:plantId/harvests', validate(schemas.harvests), getHarvests);
+router.delete('/:plantId/harvests/:harvestId', validate(schemas.deleteHarvest), deleteHarvest);
+
+// Plant assistant chat routes
+router.post('/:plantId/chat', validate(schemas.sendChatMessage), sendPlantChatMessage);
+router.get('/:plantId/chat', validate(schemas.chatThread), getPlantChat);
+router.patch('/:plantId/chat/proposals/:proposalId', validate(schemas.resolveChatProposal), resolveChatProposal);
+
+// Step lifecycle routes (order must come before /:stepId)
+router.post('/:plantId/steps', validate(schemas.addStep), addStep);
+router.patch('/:plantId/steps/order', validate(schemas.reorderSteps), reorderPlantSteps);
+router.patch('/:plantId/steps/:stepId', validate(schemas.updateStep), updateStep);
+router.delete('/:plantId/steps/:stepId', validate(schemas.deleteStep), deleteStep);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,10 @@
+import express from 'express';
+import { getProfile, updateProfile } from '../controllers/profileController';
+
+// Authentication is applied to everything under /api in app.ts
+const router = express.Router();
+
+router.get('/', getProfile);
+router.put('/', updateProfile);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from 'express';
+import { getSchedule } from '../controllers/scheduleController';
+
+// Authentication is applied to everything under /api in app.ts
+const router = express.Router();
+
+router.get('/', getSchedule);
+
+export default router;
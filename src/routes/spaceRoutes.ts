@@ -0,0 +1,19 @@
+import express from 'express';
+import {
+  createSpace,
+  deleteSpace,
+  getSpace,
+  listSpaces,
+  updateSpace
+} from '../controllers/spaceController';
+
+// Authentication is applied to everything under /api in app.ts
+const router = express.Router();
+
+router.get('/', listSpaces);
+router.post('/', createSpace);
+router.get('/:spaceId', getSpace);
+router.patch('/:spaceId', updateSpace);
+router.delete('/:spaceId', deleteSpace);
+
+export default router;
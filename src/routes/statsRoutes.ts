@@ -0,0 +1,9 @@
+import express from 'express';
+import { getStats } from '../controllers/statsController';
+
+// Authentication is applied to everything under /api in app.ts
+const router = express.Router();
+
+router.get('/', getStats);
+
+export default router;
@@ -0,0 +1,163 @@
+import { Types } from "mongoose";
+import { IGrowingSpace } from "../../models/GrowingSpace";
+import { IPlant } from "../../models/Plant";
+import { checkActivation, findCompanionPlant } from "../compatibility";
+import { plantWith } from "./factories";
+
+const DEFAULT_FOOTPRINT = 0.1;
+
+const named = (plantName: string): IPlant =>
+  plantWith([], { _id: new Types.ObjectId(), plantName } as Partial<IPlant>);
+
+const spaceOf = (areaSqM: number): IGrowingSpace =>
+  ({
+    _id: new Types.ObjectId(),
+    name: "Balcony box",
+    areaSqM,
+  } as unknown as IGrowingSpace);
+
+describe("findCompanionPlant", () => {
+  it.each([
+    ["Tomato", "tomato"],
+    ["Cherry Tomato", "tomato"],
+    ["Organic cherry tomatoes", "tomato"],
+    ["Thai Basil", "basil"],
+    ["Snow Peas", "pea"],
+    ["Spearmint", "mint"],
+  ])("matches %s to %s", (plantName, entry) => {
+    expect(findCompanionPlant(plantName)?.name).toBe(entry);
+  });
+
+  it("prefers the longest matching name", () => {
+    // "squash" alone is a pumpkin
+    expect(findCompanionPlant("Summer squash")?.name).toBe("zucchini");
+    expect(findCompanionPlant("Butternut squash")?.name).toBe("pumpkin");
+  });
+
+  it("only matches whole words", () => {
+    expect(findCompanionPlant("Peanut")).toBeNull();
+    expect(findCompanionPlant("Peppermint")?.name).toBe("mint");
+    expect(findCompanionPlant("Sweetcorn")).toBeNull();
+  });
+
+  it("returns null for plants not in the table", () => {
+    expect(findCompanionPlant("Monstera")).toBeNull();
+    expect(findCompanionPlant("")).toBeNull();
+  });
+});
+
+describe("checkActivation", () => {
+  it("estimates capacity from the footprints of the plants in the space", () => {
+    const space = spaceOf(1);
+
+    const check = checkActivation(
+      named("Tomato"),
+      space,
+      [named("Cucumber"), named("Monstera")],
+      DEFAULT_FOOTPRINT
+    );
+
+    // Cucumber 0.3 plus the default 0.1 for the unknown Monstera
+    expect(check.capacity).toEqual({
+      spaceId: String(space._id),
+      areaSqM: 1,
+      usedSqM: 0.4,
+      requiredSqM: 0.35,
+      utilisation: 0.75,
+    });
+    expect(check.warnings).toEqual([]);
+  });
+
+  it("warns when the space would be over capacity", () => {
+    const check = checkActivation(
+      named("Zucchini"),
+      spaceOf(1),
+      [named("Cucumber")],
+      DEFAULT_FOOTPRINT
+    );
+
+    expect(check.capacity?.utilisation).toBe(1.1);
+    expect(check.warnings).toEqual([
+      {
+        code: "over-capacity",
+        message:
+          '"Balcony box" has about 0.7 m² free but Zucchini needs about 0.8 m².',
+      },
+    ]);
+  });
+
+  it("treats a space without an area as full", () => {
+    const check = checkActivation(named("Basil"), spaceOf(0), [], DEFAULT_FOOTPRINT);
+
+    expect(check.warnings.map((warning) => warning.code)).toEqual([
+      "over-capacity",
+    ]);
+  });
+
+  it("has no capacity estimate outside a growing space", () => {
+    const check = checkActivation(
+      named("Pumpkin"),
+      null,
+      [named("Pumpkin")],
+      DEFAULT_FOOTPRINT
+    );
+
+    expect(check.capacity).toBeNull();
+    expect(check.warnings).toEqual([]);
+  });
+
+  it("warns about antagonists among the active plants", () => {
+    const fennel = named("Florence Fennel");
+
+    const check = checkActivation(
+      named("Cherry Tomato"),
+      null,
+      [fennel],
+      DEFAULT_FOOTPRINT
+    );
+
+    expect(check.warnings).toEqual([
+      expect.objectContaining({
+        code: "antagonist",
+        plantId: String(fennel._id),
+        plantName: "Florence Fennel",
+        message: expect.stringMatching(
+          /^Cherry Tomato does not grow well next to Florence Fennel\./
+        ),
+      }),
+    ]);
+    expect(check.companions).toEqual([]);
+  });
+
+  it("lists good companions without warning", () => {
+    const basil = named("Sweet Basil");
+
+    // Pairs apply in either order
+    const check = checkActivation(
+      named("Bell pepper"),
+      null,
+      [basil, named("Lettuce")],
+      DEFAULT_FOOTPRINT
+    );
+
+    expect(check.warnings).toEqual([]);
+    expect(check.companions).toEqual([
+      {
+        plantId: String(basil._id),
+        plantName: "Sweet Basil",
+        reason: expect.any(String),
+      },
+    ]);
+  });
+
+  it("skips the companion check for plants not in the table", () => {
+    const check = checkActivation(
+      named("Monstera"),
+      null,
+      [named("Fennel")],
+      DEFAULT_FOOTPRINT
+    );
+
+    expect(check).toEqual({ capacity: null, companions: [], warnings: [] });
+  });
+});
@@ -0,0 +1,23 @@
+import { IPlant, IPlantStep } from "../../models/Plant";
+
+// Plain stand-ins for plant documents; the services under test only read
+// and write their fields
+
+export const step = (
+  id: number,
+  fields: Partial<IPlantStep> = {}
+): IPlantStep => ({
+  id,
+  title: `Step ${id}`,
+  description: "",
+  estimatedTime: "1 day",
+  isCompleted: fields.status === "done",
+  status: "pending",
+  kind: "journey",
+  ...fields,
+});
+
+export const plantWith = (
+  steps: IPlantStep[],
+  fields: Partial<IPlant> = {}
+): IPlant => ({ steps, ...fields } as unknown as IPlant);
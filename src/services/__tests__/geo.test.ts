@@ -0,0 +1,46 @@
+import { geocode } from "../geo";
+
+describe("geocode", () => {
+  it("resolves a known city", () => {
+    expect(geocode("Pune")).toMatchObject({
+      city: "Pune",
+      country: "India",
+      countryCode: "IN",
+      climate: expect.objectContaining({ hardinessZone: expect.any(String) }),
+    });
+  });
+
+  it("ignores case, accents and spacing", () => {
+    expect(geocode("  sao PAULO ")?.city).toBe("São Paulo");
+  });
+
+  it("resolves aliases", () => {
+    expect(geocode("Bangalore")?.city).toBe("Bengaluru");
+  });
+
+  it("accepts a qualifying country by name, code or common alias", () => {
+    expect(geocode("London, United Kingdom")?.city).toBe("London");
+    expect(geocode("London, GB")?.city).toBe("London");
+    expect(geocode("London, UK")?.city).toBe("London");
+    expect(geocode("Bangalore, India")?.city).toBe("Bengaluru");
+  });
+
+  it("returns null for a country or region the place is not in", () => {
+    expect(geocode("Paris, Texas")).toBeNull();
+    expect(geocode("Paris, Ontario")).toBeNull();
+    expect(geocode("London, USA")).toBeNull();
+  });
+
+  it("ignores qualifiers it does not know, such as neighbourhoods", () => {
+    expect(geocode("Pune, Kothrud")?.city).toBe("Pune");
+  });
+
+  it("finds a known place later in the text", () => {
+    expect(geocode("Kothrud, Pune")?.city).toBe("Pune");
+  });
+
+  it("returns null for unknown places and empty text", () => {
+    expect(geocode("Atlantis")).toBeNull();
+    expect(geocode(" , ")).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { detectImageType } from "../imageType";
+
+const bytes = (...values: number[]) => Buffer.from(values);
+
+// ISO base media header: box size, "ftyp", then the major brand
+const ftyp = (brand: string) =>
+  Buffer.concat([bytes(0, 0, 0, 0x18), Buffer.from(`ftyp${brand}`, "latin1")]);
+
+describe("detectImageType", () => {
+  it("recognises PNG", () => {
+    expect(
+      detectImageType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0))
+    ).toBe("image/png");
+  });
+
+  it("recognises JPEG", () => {
+    expect(detectImageType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe("image/jpeg");
+  });
+
+  it("recognises WebP", () => {
+    const webp = Buffer.from("RIFF\0\0\0\0WEBPVP8 ", "latin1");
+    expect(detectImageType(webp)).toBe("image/webp");
+  });
+
+  it("recognises HEIC and HEIF by brand", () => {
+    expect(detectImageType(ftyp("heic"))).toBe("image/heic");
+    expect(detectImageType(ftyp("hevx"))).toBe("image/heic");
+    expect(detectImageType(ftyp("mif1"))).toBe("image/heif");
+  });
+
+  it("rejects other ftyp brands, such as MP4 video", () => {
+    expect(detectImageType(ftyp("isom"))).toBeNull();
+  });
+
+  it("rejects formats that are not accepted and truncated headers", () => {
+    expect(detectImageType(Buffer.from("GIF89a", "latin1"))).toBeNull();
+    expect(detectImageType(Buffer.from("%PDF-1.7", "latin1"))).toBeNull();
+    expect(detectImageType(bytes(0x89, 0x50, 0x4e))).toBeNull();
+    expect(detectImageType(Buffer.from("RIFF", "latin1"))).toBeNull();
+    expect(detectImageType(Buffer.alloc(0))).toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+import { Types } from "mongoose";
+import Job, { IJob } from "../../models/Job";
+import {
+  JobError,
+  JobHandler,
+  recoverStuckJobs,
+  retryDelayMs,
+  runJob,
+} from "../jobs";
+
+const BACKOFF = { backoffSeconds: 30, maxBackoffSeconds: 600 };
+const NOW = new Date("2025-05-10T12:00:00Z");
+
+const claimedJob = (fields: Partial<IJob> = {}): IJob =>
+  ({
+    _id: new Types.ObjectId(),
+    type: "recommendations",
+    status: "running",
+    payload: {},
+    attempts: 1,
+    maxAttempts: 3,
+    lockedBy: "worker-1",
+    lockedAt: NOW,
+    ...fields,
+  } as unknown as IJob);
+
+describe("retryDelayMs", () => {
+  it.each([
+    [1, 30],
+    [2, 60],
+    [3, 120],
+    [5, 480],
+  ])("waits after attempt %i for %i seconds", (attempts, seconds) => {
+    expect(retryDelayMs(attempts, BACKOFF)).toBe(seconds * 1000);
+  });
+
+  it("caps the delay", () => {
+    expect(retryDelayMs(6, BACKOFF)).toBe(600 * 1000);
+    expect(retryDelayMs(30, BACKOFF)).toBe(600 * 1000);
+  });
+
+  it("treats a job that never ran like a first attempt", () => {
+    expect(retryDelayMs(0, BACKOFF)).toBe(30 * 1000);
+  });
+});
+
+describe("runJob", () => {
+  // The worker holding the job in the database
+  let lockHolder: string | undefined;
+
+  const storedJob = (job: IJob) =>
+    ((filter: { lockedBy?: string }, update: { $set: Partial<IJob> }) =>
+      Promise.resolve(
+        filter.lockedBy === lockHolder ? { ...job, ...update.$set } : null
+      )) as never;
+
+  beforeEach(() => {
+    lockHolder = "worker-1";
+    jest.spyOn(Job, "updateOne").mockResolvedValue({} as never);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("records the result of a successful run", async () => {
+    const job = claimedJob();
+    jest.spyOn(Job, "findOneAndUpdate").mockImplementation(storedJob(job));
+
+    const finished = await runJob(job, async () => ({ ok: true }), BACKOFF);
+
+    expect(finished).toMatchObject({
+      status: "succeeded",
+      result: { ok: true },
+    });
+    expect(Job.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: job._id, status: "running", lockedBy: "worker-1" },
+      expect.anything(),
+      { new: true }
+    );
+  });
+
+  it("only writes progress while holding the lock", async () => {
+    const job = claimedJob();
+    jest.spyOn(Job, "findOneAndUpdate").mockImplementation(storedJob(job));
+
+    await runJob(
+      job,
+      async (_, context) => {
+        await context.progress("generating", 40);
+        return {};
+      },
+      BACKOFF
+    );
+
+    expect(Job.updateOne).toHaveBeenCalledWith(
+      { _id: job._id, status: "running", lockedBy: "worker-1" },
+      {
+        $set: {
+          progress: { stage: "generating", percent: 40 },
+          lockedAt: expect.any(Date),
+        },
+      }
+    );
+  });
+
+  it("leaves a job recovered from under it alone", async () => {
+    const job = claimedJob();
+    jest.spyOn(Job, "findOneAndUpdate").mockImplementation(storedJob(job));
+    const slowHandler: JobHandler = async () => {
+      // Recovered and claimed by another worker meanwhile
+      lockHolder = "worker-2";
+      return { ok: true };
+    };
+
+    expect(await runJob(job, slowHandler, BACKOFF)).toBeNull();
+  });
+
+  it("queues a failed attempt again after the backoff", async () => {
+    const job = claimedJob({ attempts: 2 });
+    jest.spyOn(Job, "findOneAndUpdate").mockImplementation(storedJob(job));
+    const before = Date.now();
+
+    const retried = await runJob(
+      job,
+      () => Promise.reject(new Error("Model overloaded")),
+      BACKOFF
+    );
+
+    expect(retried).toMatchObject({
+      status: "queued",
+      error: { message: "Model overloaded" },
+    });
+    expect(retried?.runAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+  });
+
+  it("fails a job that is out of attempts", async () => {
+    const job = claimedJob({ attempts: 3 });
+    jest.spyOn(Job, "findOneAndUpdate").mockImplementation(storedJob(job));
+
+    const failed = await runJob(
+      job,
+      () => Promise.reject(new Error("Model overloaded")),
+      BACKOFF
+    );
+
+    expect(failed?.status).toBe("failed");
+  });
+
+  it("fails at once on an error that cannot be retried", async () => {
+    const job = claimedJob();
+    jest.spyOn(Job, "findOneAndUpdate").mockImplementation(storedJob(job));
+
+    const failed = await runJob(
+      job,
+      () =>
+        Promise.reject(
+          new JobError("User no longer exists", { userId: "gone" }, false)
+        ),
+      BACKOFF
+    );
+
+    expect(failed).toMatchObject({
+      status: "failed",
+      error: { message: "User no longer exists", details: { userId: "gone" } },
+    });
+  });
+});
+
+describe("recoverStuckJobs", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("fails exhausted jobs and queues the rest again", async () => {
+    jest
+      .spyOn(Job, "updateMany")
+      .mockResolvedValueOnce({ modifiedCount: 1 } as never)
+      .mockResolvedValueOnce({ modifiedCount: 2 } as never);
+
+    expect(await recoverStuckJobs(10, NOW)).toBe(3);
+
+    const staleBefore = new Date("2025-05-10T11:50:00Z");
+    const [exhausted, requeued] = (Job.updateMany as jest.Mock).mock.calls;
+    expect(exhausted).toEqual([
+      {
+        status: "running",
+        lockedAt: { $lt: staleBefore },
+        $expr: { $gte: ["$attempts", "$maxAttempts"] },
+      },
+      expect.objectContaining({
+        $set: expect.objectContaining({ status: "failed", finishedAt: NOW }),
+      }),
+    ]);
+    // Runs second, so only jobs with attempts left are still running
+    expect(requeued).toEqual([
+      { status: "running", lockedAt: { $lt: staleBefore } },
+      expect.objectContaining({
+        $set: expect.objectContaining({ status: "queued", runAt: NOW }),
+      }),
+    ]);
+  });
+});
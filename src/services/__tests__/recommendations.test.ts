@@ -0,0 +1,56 @@
+import { Types } from "mongoose";
+import { IJob } from "../../models/Job";
+import User from "../../models/User";
+import { JobContext, JobError } from "../jobs";
+import { runRecommendationJob } from "../recommendations";
+
+const context: JobContext = { progress: async () => undefined };
+
+const jobWith = (payload: Record<string, unknown>): IJob =>
+  ({
+    _id: new Types.ObjectId(),
+    user: new Types.ObjectId(),
+    type: "recommendations",
+    payload,
+  } as unknown as IJob);
+
+describe("runRecommendationJob", () => {
+  beforeEach(() => {
+    jest.spyOn(User, "findById").mockResolvedValue(null as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("fails a malformed payload without retrying", async () => {
+    const run = runRecommendationJob(
+      jobWith({ location: "London", sunlightHours: "lots" }),
+      context
+    );
+
+    await expect(run).rejects.toBeInstanceOf(JobError);
+    await expect(run).rejects.toMatchObject({
+      retryable: false,
+      details: {
+        invalidFields: [
+          expect.objectContaining({ field: "sunlightHours" }),
+          expect.objectContaining({ field: "availableSpace" }),
+        ],
+      },
+    });
+    expect(User.findById).not.toHaveBeenCalled();
+  });
+
+  it("runs a well-formed payload", async () => {
+    const run = runRecommendationJob(
+      jobWith({ location: "London", sunlightHours: 6, availableSpace: "pot" }),
+      context
+    );
+
+    // Gets as far as looking the user up
+    await expect(run).rejects.toMatchObject({
+      message: "User no longer exists",
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { Types } from "mongoose";
+import Diagnosis from "../../models/Diagnosis";
+import NotificationLog from "../../models/NotificationLog";
+import Plant, { IPlant } from "../../models/Plant";
+import User, { INotificationPreferences, IUser } from "../../models/User";
+// Imported directly so the FCM transport and its Firebase setup stay unloaded
+import { createMemorySender } from "../notifications/memorySender";
+import { NotificationSender } from "../notifications/types";
+import {
+  collectReminders,
+  isWithinQuietHours,
+  runReminderSweep,
+} from "../reminders";
+import { plantWith, step } from "./factories";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2025-05-10T12:00:00Z");
+
+const preferences = (
+  fields: Partial<INotificationPreferences> = {}
+): INotificationPreferences => ({
+  timezone: "UTC",
+  mutedPlants: [],
+  ...fields,
+});
+
+const userWith = (plants: IPlant[], fields: Partial<IUser> = {}): IUser =>
+  ({
+    _id: new Types.ObjectId(),
+    plants: plants.map((plant) => plant._id),
+    deviceTokens: [{ token: "token-1", lastSeenAt: NOW }],
+    notificationPreferences: preferences(),
+    ...fields,
+  } as unknown as IUser);
+
+// An active plant with one step due `dueInDays` from now
+const plantDueIn = (plantName: string, dueInDays: number): IPlant =>
+  plantWith([step(1, { title: "Water", estimatedTime: "1 day" })], {
+    _id: new Types.ObjectId(),
+    plantName,
+    isActive: true,
+    activatedAt: new Date(NOW.getTime() + (dueInDays - 1) * DAY_MS),
+  } as Partial<IPlant>);
+
+describe("isWithinQuietHours", () => {
+  const at = (time: string) => new Date(`2025-05-10T${time}:00Z`);
+
+  it("is never quiet without quiet hours", () => {
+    expect(isWithinQuietHours(undefined, at("03:00"))).toBe(false);
+    expect(isWithinQuietHours(preferences(), at("03:00"))).toBe(false);
+  });
+
+  it("checks a window within one day", () => {
+    const prefs = preferences({
+      quietHours: { start: "13:00", end: "15:00" },
+    });
+
+    expect(isWithinQuietHours(prefs, at("13:00"))).toBe(true);
+    expect(isWithinQuietHours(prefs, at("14:59"))).toBe(true);
+    expect(isWithinQuietHours(prefs, at("15:00"))).toBe(false);
+    expect(isWithinQuietHours(prefs, at("12:59"))).toBe(false);
+  });
+
+  it("checks a window that wraps past midnight", () => {
+    const prefs = preferences({
+      quietHours: { start: "22:00", end: "07:00" },
+    });
+
+    expect(isWithinQuietHours(prefs, at("23:30"))).toBe(true);
+    expect(isWithinQuietHours(prefs, at("00:00"))).toBe(true);
+    expect(isWithinQuietHours(prefs, at("06:59"))).toBe(true);
+    expect(isWithinQuietHours(prefs, at("07:00"))).toBe(false);
+    expect(isWithinQuietHours(prefs, at("12:00"))).toBe(false);
+    expect(isWithinQuietHours(prefs, at("21:59"))).toBe(false);
+  });
+
+  it("uses the user's time zone", () => {
+    const prefs = preferences({
+      quietHours: { start: "22:00", end: "07:00" },
+      timezone: "Asia/Kolkata",
+    });
+
+    // 22:30 and 08:30 in India
+    expect(isWithinQuietHours(prefs, at("17:00"))).toBe(true);
+    expect(isWithinQuietHours(prefs, at("03:00"))).toBe(false);
+  });
+});
+
+describe("reminders", () => {
+  let plants: IPlant[];
+  let users: IUser[];
+  let logged: Set<string>;
+  let latestDiagnosis: unknown;
+
+  beforeEach(() => {
+    plants = [];
+    users = [];
+    logged = new Set();
+    latestDiagnosis = null;
+
+    jest.spyOn(Plant, "find").mockImplementation(((filter: {
+      _id: { $in: Types.ObjectId[] };
+    }) => {
+      const ids = filter._id.$in.map(String);
+      return Promise.resolve(
+        plants.filter(
+          (plant) => plant.isActive && ids.includes(String(plant._id))
+        )
+      );
+    }) as never);
+    jest.spyOn(User, "find").mockImplementation((() =>
+      Promise.resolve(users)) as never);
+    jest.spyOn(User, "updateOne").mockResolvedValue({} as never);
+    jest.spyOn(Diagnosis, "findOne").mockImplementation((() => ({
+      sort: () => Promise.resolve(latestDiagnosis),
+    })) as never);
+    jest.spyOn(NotificationLog, "exists").mockImplementation(((filter: {
+      user: Types.ObjectId;
+      key: string;
+    }) =>
+      Promise.resolve(
+        logged.has(`${filter.user}:${filter.key}`) ? { _id: "log" } : null
+      )) as never);
+    jest.spyOn(NotificationLog, "create").mockImplementation(((doc: {
+      user: Types.ObjectId;
+      key: string;
+    }) => {
+      logged.add(`${doc.user}:${doc.key}`);
+      return Promise.resolve(doc);
+    }) as never);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("collectReminders", () => {
+    it("reminds about overdue and upcoming steps", async () => {
+      plants = [plantDueIn("Basil", -2), plantDueIn("Mint", 0.5)];
+
+      const reminders = await collectReminders(userWith(plants), NOW, 7);
+
+      expect(reminders.map((r) => [r.type, r.title, r.body])).toEqual([
+        ["step-overdue", "Basil: care step overdue", "Water"],
+        ["step-due", "Mint: care step due", "Water"],
+      ]);
+    });
+
+    it("leaves out steps due later and muted plants", async () => {
+      const muted = plantDueIn("Mint", 0.5);
+      plants = [plantDueIn("Basil", 5), muted];
+      const user = userWith(plants, {
+        notificationPreferences: preferences({
+          mutedPlants: [muted._id as Types.ObjectId],
+        }),
+      });
+
+      expect(await collectReminders(user, NOW, 7)).toEqual([]);
+    });
+
+    it("asks for a follow-up once treatment has had time to work", async () => {
+      plants = [plantDueIn("Basil", 5)];
+      const diagnosisId = new Types.ObjectId();
+      latestDiagnosis = {
+        _id: diagnosisId,
+        needsTreatment: true,
+        createdAt: new Date(NOW.getTime() - 8 * DAY_MS),
+      };
+
+      const reminders = await collectReminders(userWith(plants), NOW, 7);
+
+      expect(reminders).toEqual([
+        expect.objectContaining({
+          type: "diagnosis-follow-up",
+          key: `diagnosis-follow-up:${diagnosisId}`,
+        }),
+      ]);
+    });
+
+    it("does not ask for a follow-up too early", async () => {
+      plants = [plantDueIn("Basil", 5)];
+      latestDiagnosis = {
+        _id: new Types.ObjectId(),
+        needsTreatment: true,
+        createdAt: new Date(NOW.getTime() - 2 * DAY_MS),
+      };
+
+      expect(await collectReminders(userWith(plants), NOW, 7)).toEqual([]);
+    });
+  });
+
+  describe("runReminderSweep", () => {
+    it("sends each reminder once", async () => {
+      plants = [plantDueIn("Basil", -2)];
+      users = [userWith(plants)];
+      const sender = createMemorySender();
+
+      expect(await runReminderSweep(sender, 7, NOW)).toEqual({
+        usersChecked: 1,
+        sent: 1,
+        failed: 0,
+      });
+      expect(sender.sent).toEqual([
+        expect.objectContaining({
+          tokens: ["token-1"],
+          title: "Basil: care step overdue",
+          data: { plantId: String(plants[0]._id), type: "step-overdue" },
+        }),
+      ]);
+
+      expect((await runReminderSweep(sender, 7, NOW)).sent).toBe(0);
+      expect(sender.sent).toHaveLength(1);
+    });
+
+    it("skips users in their quiet hours", async () => {
+      plants = [plantDueIn("Basil", -2)];
+      users = [
+        userWith(plants, {
+          notificationPreferences: preferences({
+            quietHours: { start: "11:00", end: "13:00" },
+          }),
+        }),
+      ];
+      const sender = createMemorySender();
+
+      expect((await runReminderSweep(sender, 7, NOW)).sent).toBe(0);
+      expect(sender.sent).toEqual([]);
+    });
+
+    it("carries on after a user whose reminders fail", async () => {
+      plants = [plantDueIn("Basil", -2)];
+      users = [
+        userWith(plants, {
+          deviceTokens: [{ token: "broken", lastSeenAt: NOW }],
+        }),
+        userWith(plants),
+      ];
+      const memory = createMemorySender();
+      const sender: NotificationSender = {
+        name: "flaky",
+        send: (tokens, message) =>
+          tokens.includes("broken")
+            ? Promise.reject(new Error("Network error"))
+            : memory.send(tokens, message),
+      };
+
+      expect(await runReminderSweep(sender, 7, NOW)).toEqual({
+        usersChecked: 2,
+        sent: 1,
+        failed: 1,
+      });
+      expect(memory.sent.map((message) => message.tokens)).toEqual([
+        ["token-1"],
+      ]);
+    });
+
+    it("retries a reminder no device received", async () => {
+      plants = [plantDueIn("Basil", -2)];
+      users = [userWith(plants)];
+      const memory = createMemorySender();
+      let delivered = false;
+      const sender: NotificationSender = {
+        name: "offline-then-online",
+        send: async (tokens, message) =>
+          delivered
+            ? memory.send(tokens, message)
+            : { successCount: 0, invalidTokens: [] },
+      };
+
+      expect((await runReminderSweep(sender, 7, NOW)).sent).toBe(0);
+      expect(NotificationLog.create).not.toHaveBeenCalled();
+
+      delivered = true;
+      expect((await runReminderSweep(sender, 7, NOW)).sent).toBe(1);
+      expect(memory.sent).toHaveLength(1);
+    });
+
+    it("forgets tokens the transport reports as unregistered", async () => {
+      plants = [plantDueIn("Basil", -2), plantDueIn("Mint", -1)];
+      const user = userWith(plants, {
+        deviceTokens: [
+          { token: "stale", lastSeenAt: NOW },
+          { token: "token-1", lastSeenAt: NOW },
+        ],
+      });
+      users = [user];
+      const memory = createMemorySender();
+      const sender: NotificationSender = {
+        name: "stale-token",
+        send: async (tokens, message) => {
+          await memory.send(tokens, message);
+          return {
+            successCount: tokens.filter((t) => t !== "stale").length,
+            invalidTokens: tokens.filter((t) => t === "stale"),
+          };
+        },
+      };
+
+      await runReminderSweep(sender, 7, NOW);
+
+      // The second reminder no longer goes to the stale token
+      expect(memory.sent.map((message) => message.tokens)).toEqual([
+        ["stale", "token-1"],
+        ["token-1"],
+      ]);
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: user._id },
+        { $pull: { deviceTokens: { token: { $in: ["stale"] } } } }
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  computeStepSchedule,
+  DEFAULT_STEP_DAYS,
+  parseDuration,
+} from "../schedule";
+import { plantWith, step } from "./factories";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("parseDuration", () => {
+  it.each([
+    ["2 weeks", 14],
+    ["3 days", 3],
+    ["1.5 days", 1.5],
+    ["a month", 30],
+    ["an hour", 1 / 24],
+    ["one year", 365],
+    ["couple of weeks", 14],
+    ["Water every few days", 3],
+  ])("reads %s", (text, days) => {
+    expect(parseDuration(text)).toBeCloseTo(days);
+  });
+
+  it.each([
+    ["7-14 days", 14],
+    ["2 to 3 weeks", 21],
+    ["5–7 days", 7],
+  ])("uses the upper bound of the range %s", (text, days) => {
+    expect(parseDuration(text)).toBe(days);
+  });
+
+  it.each([
+    ["Water daily", 1],
+    ["Feed weekly", 7],
+    ["Prune fortnightly", 14],
+    ["Check monthly", 30],
+  ])("reads the adverb in %s", (text, days) => {
+    expect(parseDuration(text)).toBe(days);
+  });
+
+  it("returns null when there is no duration", () => {
+    expect(parseDuration("Until the soil is dry")).toBeNull();
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("0 days")).toBeNull();
+  });
+});
+
+describe("computeStepSchedule", () => {
+  const activatedAt = new Date("2025-03-01T00:00:00Z");
+  const daysAfter = (start: Date, days: number) =>
+    new Date(start.getTime() + days * DAY_MS);
+
+  it("lays open steps out one after another from activation", () => {
+    const schedule = computeStepSchedule(
+      plantWith(
+        [
+          step(1, { estimatedTime: "2 days" }),
+          step(2, { estimatedTime: "1 week" }),
+        ],
+        { activatedAt }
+      )
+    );
+
+    expect(schedule.map((s) => [s.stepId, s.startAt, s.dueAt])).toEqual([
+      [1, activatedAt, daysAfter(activatedAt, 2)],
+      [2, daysAfter(activatedAt, 2), daysAfter(activatedAt, 9)],
+    ]);
+  });
+
+  it("falls back to the default for estimates it cannot read", () => {
+    const [scheduled] = computeStepSchedule(
+      plantWith([step(1, { estimatedTime: "when ready" })], { activatedAt })
+    );
+
+    expect(scheduled.durationDays).toBe(DEFAULT_STEP_DAYS);
+    expect(scheduled.durationParsed).toBe(false);
+  });
+
+  it("re-anchors on completion times and leaves out skipped steps", () => {
+    const completedAt = daysAfter(activatedAt, 10);
+    const schedule = computeStepSchedule(
+      plantWith(
+        [
+          step(1, { estimatedTime: "2 days", status: "done", completedAt }),
+          step(2, { estimatedTime: "5 days", status: "skipped" }),
+          step(3),
+        ],
+        { activatedAt }
+      )
+    );
+
+    expect(schedule).toHaveLength(1);
+    expect(schedule[0].stepId).toBe(3);
+    expect(schedule[0].startAt).toEqual(completedAt);
+    expect(schedule[0].dueAt).toEqual(daysAfter(completedAt, 1));
+  });
+
+  it("starts from creation for plants without an activation time", () => {
+    const createdAt = new Date("2024-06-01T00:00:00Z");
+    const [scheduled] = computeStepSchedule(
+      plantWith([step(1)], { createdAt })
+    );
+
+    expect(scheduled.startAt).toEqual(createdAt);
+  });
+
+  it("is empty when there is no start date", () => {
+    expect(computeStepSchedule(plantWith([step(1)]))).toEqual([]);
+  });
+});
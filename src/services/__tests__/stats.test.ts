@@ -0,0 +1,160 @@
+import { Types } from "mongoose";
+import { HarvestUnit, IHarvest } from "../../models/Harvest";
+import { IPlant } from "../../models/Plant";
+import { computePlantStats, computeUserStats } from "../stats";
+import { plantWith, step } from "./factories";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date("2025-04-01T00:00:00Z");
+const daysAfter = (days: number) => new Date(START.getTime() + days * DAY_MS);
+
+const statsPlant = (fields: Partial<IPlant> = {}): IPlant =>
+  plantWith([], {
+    _id: new Types.ObjectId(),
+    plantName: "Tomato",
+    successRate: "85%",
+    isActive: true,
+    ...fields,
+  } as Partial<IPlant>);
+
+const harvest = (
+  plant: IPlant,
+  quantity: number,
+  unit: HarvestUnit,
+  fields: Partial<IHarvest> = {}
+): IHarvest =>
+  ({
+    plant: plant._id,
+    harvestedAt: daysAfter(60),
+    quantity,
+    unit,
+    ...fields,
+  } as unknown as IHarvest);
+
+describe("computePlantStats", () => {
+  it("converts weighed harvests to grams and keeps counts apart", () => {
+    const plant = statsPlant();
+
+    const stats = computePlantStats(plant, [
+      harvest(plant, 1.5, "kg"),
+      harvest(plant, 250, "g"),
+      harvest(plant, 2, "oz"),
+      harvest(plant, 1, "lb"),
+      harvest(plant, 6, "count"),
+    ]);
+
+    expect(stats.totalYield).toEqual({ grams: 2260.29, count: 6 });
+    expect(stats.harvestCount).toBe(5);
+  });
+
+  it("averages the quality of rated harvests only", () => {
+    const plant = statsPlant();
+
+    const stats = computePlantStats(plant, [
+      harvest(plant, 1, "count", { qualityRating: 4 }),
+      harvest(plant, 1, "count", { qualityRating: 5 }),
+      harvest(plant, 1, "count"),
+    ]);
+
+    expect(stats.averageQuality).toBe(4.5);
+    expect(computePlantStats(plant, []).averageQuality).toBeNull();
+  });
+
+  it("reads the predicted success rate", () => {
+    expect(computePlantStats(statsPlant(), []).predictedSuccessRate).toBe(85);
+    expect(
+      computePlantStats(statsPlant({ successRate: "High" }), [])
+        .predictedSuccessRate
+    ).toBeNull();
+  });
+
+  it("counts days to the first harvest from the first activation", () => {
+    // Deactivated and activated again since; activatedAt was reset
+    const plant = statsPlant({
+      firstActivatedAt: START,
+      activatedAt: daysAfter(30),
+    });
+
+    const stats = computePlantStats(plant, [
+      harvest(plant, 1, "count", { harvestedAt: daysAfter(75) }),
+      harvest(plant, 1, "count", { harvestedAt: daysAfter(60) }),
+    ]);
+
+    expect(stats.daysToFirstHarvest).toBe(60);
+  });
+
+  it("falls back to the latest activation for older plants", () => {
+    const plant = statsPlant({ activatedAt: daysAfter(30) });
+
+    const stats = computePlantStats(plant, [harvest(plant, 1, "count")]);
+
+    expect(stats.daysToFirstHarvest).toBe(30);
+  });
+
+  it("has no days to first harvest without a harvest or activation", () => {
+    const plant = statsPlant();
+
+    expect(computePlantStats(plant, []).daysToFirstHarvest).toBeNull();
+    expect(
+      computePlantStats(plant, [harvest(plant, 1, "count")]).daysToFirstHarvest
+    ).toBeNull();
+  });
+
+  it("leaves skipped steps out of the completion rate", () => {
+    const plant = statsPlant({
+      steps: [
+        step(1, { status: "done" }),
+        step(2, { status: "skipped" }),
+        step(3, { status: "done" }),
+        step(4),
+        step(5, { status: "in-progress" }),
+      ],
+    });
+
+    expect(computePlantStats(plant, []).steps).toEqual({
+      total: 5,
+      done: 2,
+      skipped: 1,
+      completionRate: 0.5,
+    });
+  });
+
+  it("has no completion rate when every step was skipped", () => {
+    const plant = statsPlant({ steps: [step(1, { status: "skipped" })] });
+
+    expect(computePlantStats(plant, []).steps.completionRate).toBeNull();
+  });
+});
+
+describe("computeUserStats", () => {
+  it("totals harvests across plants and attributes them to each", () => {
+    const tomato = statsPlant({
+      steps: [step(1, { status: "done" }), step(2)],
+    });
+    const basil = statsPlant({
+      plantName: "Basil",
+      isActive: false,
+      steps: [step(1, { status: "done" })],
+    });
+    const idle = statsPlant({ plantName: "Mint" });
+
+    const stats = computeUserStats(
+      [tomato, basil, idle],
+      [
+        harvest(tomato, 1, "kg"),
+        harvest(tomato, 3, "count"),
+        harvest(basil, 200, "g"),
+      ]
+    );
+
+    expect(stats.plants.map((plant) => plant.harvestCount)).toEqual([2, 1, 0]);
+    expect(stats.totals).toEqual({
+      plants: 3,
+      activePlants: 2,
+      harvests: 3,
+      totalYield: { grams: 1200, count: 3 },
+      // Mint has no steps and is left out
+      averageCompletionRate: 0.75,
+    });
+  });
+});
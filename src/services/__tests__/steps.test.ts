@@ -0,0 +1,91 @@
+import { Types } from "mongoose";
+import { allocateStepIds, insertTreatmentSteps } from "../steps";
+import { plantWith, step } from "./factories";
+
+const treatment = (title: string) => ({
+  title,
+  description: "Treat the plant",
+  estimatedTime: "3 days",
+});
+
+describe("allocateStepIds", () => {
+  it("continues after the highest step id", () => {
+    const plant = plantWith([step(1), step(4), step(2)]);
+
+    expect(allocateStepIds(plant, 2)).toBe(5);
+    expect(plant.lastStepId).toBe(6);
+    expect(allocateStepIds(plant, 1)).toBe(7);
+  });
+
+  it("never reuses the ids of removed steps", () => {
+    const plant = plantWith([step(1)], { lastStepId: 9 });
+
+    expect(allocateStepIds(plant, 1)).toBe(10);
+  });
+
+  it("starts at 1 for a plant without steps", () => {
+    expect(allocateStepIds(plantWith([]), 3)).toBe(1);
+  });
+});
+
+describe("insertTreatmentSteps", () => {
+  const diagnosisId = new Types.ObjectId();
+
+  it("inserts after the furthest finished step", () => {
+    const plant = plantWith([
+      step(1, { status: "done" }),
+      step(2),
+      step(3, { status: "skipped" }),
+      step(4),
+    ]);
+
+    const result = insertTreatmentSteps(
+      plant,
+      [treatment("Spray"), treatment("Repot")],
+      diagnosisId
+    );
+
+    expect(plant.steps.map((s) => s.id)).toEqual([1, 2, 3, 5, 6, 4]);
+    expect(result.insertedAfterStepId).toBe(3);
+    expect(result.addedSteps).toEqual([
+      expect.objectContaining({
+        id: 5,
+        title: "Spray",
+        status: "pending",
+        isCompleted: false,
+        kind: "treatment",
+        diagnosis: diagnosisId,
+      }),
+      expect.objectContaining({ id: 6, title: "Repot", kind: "treatment" }),
+    ]);
+  });
+
+  it("inserts at the start when nothing is finished yet", () => {
+    const plant = plantWith([step(1), step(2)]);
+
+    const result = insertTreatmentSteps(
+      plant,
+      [treatment("Spray")],
+      diagnosisId
+    );
+
+    expect(plant.steps.map((s) => s.id)).toEqual([3, 1, 2]);
+    expect(result.insertedAfterStepId).toBeNull();
+  });
+
+  it("appends when every step is finished", () => {
+    const plant = plantWith([
+      step(1, { status: "done" }),
+      step(2, { status: "done" }),
+    ]);
+
+    const result = insertTreatmentSteps(
+      plant,
+      [treatment("Spray")],
+      diagnosisId
+    );
+
+    expect(plant.steps.map((s) => s.id)).toEqual([1, 2, 3]);
+    expect(result.insertedAfterStepId).toBe(2);
+  });
+});
@@ -0,0 +1,257 @@
+import { Types } from "mongoose";
+import GrowingSpace from "../../models/GrowingSpace";
+import Plant, { IPlant } from "../../models/Plant";
+import User, { IUser } from "../../models/User";
+import { createFileWeatherProvider } from "../weather/fileProvider";
+import { DailyForecast, WeatherProvider } from "../weather/types";
+import { computeWeatherFlags, runWeatherSweep } from "../weatherAdjustments";
+import { plantWith, step } from "./factories";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2025-06-01T08:00:00Z");
+const THRESHOLDS = { rainThresholdMm: 5, frostThresholdC: 2 };
+
+// The bundled fixture, starting today: rain on 06-02 and frost on 06-03
+const provider = createFileWeatherProvider(undefined, () => NOW);
+const bundledForecast = () =>
+  provider.getForecast({ lat: 51.5, lon: -0.13 }, 7);
+
+// A plant whose only step is due on `dueDay`
+const plantDueOn = (
+  dueDay: string,
+  title = "Water the seedlings",
+  availableSpace = "balcony"
+): IPlant =>
+  plantWith([step(1, { title, estimatedTime: "1 day" })], {
+    _id: new Types.ObjectId(),
+    isActive: true,
+    activatedAt: new Date(new Date(`${dueDay}T12:00:00Z`).getTime() - DAY_MS),
+    growingContext: { location: "London", sunlightHours: 6, availableSpace },
+  } as Partial<IPlant>);
+
+const dryForecast = (days: string[]): DailyForecast[] =>
+  days.map((date) => ({
+    date,
+    minTempC: 10,
+    maxTempC: 20,
+    precipitationMm: 0,
+  }));
+
+describe("createFileWeatherProvider", () => {
+  it("dates the fixture from the clock's current day", async () => {
+    const forecast = await bundledForecast();
+
+    expect(forecast.map((day) => day.date)).toEqual([
+      "2025-06-01",
+      "2025-06-02",
+      "2025-06-03",
+      "2025-06-04",
+      "2025-06-05",
+    ]);
+    expect(forecast[1].precipitationMm).toBe(12.5);
+  });
+
+  it("returns at most the requested number of days", async () => {
+    const forecast = await provider.getForecast({ lat: 0, lon: 0 }, 2);
+
+    expect(forecast).toHaveLength(2);
+  });
+});
+
+describe("computeWeatherFlags", () => {
+  const rainFlags = async (plant: IPlant, frostThresholdC = -10) =>
+    computeWeatherFlags(
+      plant,
+      await bundledForecast(),
+      { ...THRESHOLDS, frostThresholdC },
+      NOW
+    );
+
+  it.each([
+    ["the day after", "2025-06-01"],
+    ["the same day as", "2025-06-02"],
+    ["the day before", "2025-06-03"],
+  ])("skips watering when rain falls %s the due day", async (_, dueDay) => {
+    expect(await rainFlags(plantDueOn(dueDay))).toEqual([
+      expect.objectContaining({
+        action: "skip-watering",
+        stepId: 1,
+        date: "2025-06-02",
+      }),
+    ]);
+  });
+
+  it("ignores rain more than a day away", async () => {
+    expect(await rainFlags(plantDueOn("2025-06-04"))).toEqual([]);
+  });
+
+  it("ignores rain below the threshold", async () => {
+    // 2 mm on 06-05
+    expect(await rainFlags(plantDueOn("2025-06-05"))).toEqual([]);
+  });
+
+  it("only flags watering steps", async () => {
+    expect(
+      await rainFlags(plantDueOn("2025-06-02", "Feed with compost"))
+    ).toEqual([]);
+  });
+
+  it("treats overdue steps as due today", async () => {
+    expect(await rainFlags(plantDueOn("2025-05-20"))).toEqual([
+      expect.objectContaining({ action: "skip-watering", date: "2025-06-02" }),
+    ]);
+  });
+
+  it("asks for frost protection at or below the threshold", async () => {
+    const plant = plantDueOn("2025-06-10", "Prune");
+    const forecast = await bundledForecast();
+    const flagsAt = (frostThresholdC: number) =>
+      computeWeatherFlags(
+        plant,
+        forecast,
+        { ...THRESHOLDS, frostThresholdC },
+        NOW
+      );
+
+    // The low on 06-03 is -1°C
+    expect(flagsAt(2)).toEqual([
+      expect.objectContaining({
+        action: "protect-from-frost",
+        date: "2025-06-03",
+      }),
+    ]);
+    expect(flagsAt(-1)).toHaveLength(1);
+    expect(flagsAt(-2)).toEqual([]);
+  });
+
+  it.each(["indoor", "Sunny windowsill", "greenhouse"])(
+    "leaves plants in a sheltered space (%s) alone",
+    async (availableSpace) => {
+      const plant = plantDueOn("2025-06-02", "Water", availableSpace);
+
+      expect(await rainFlags(plant, 2)).toEqual([]);
+    }
+  );
+
+  it("has nothing to flag without a forecast", () => {
+    expect(
+      computeWeatherFlags(plantDueOn("2025-06-02"), [], THRESHOLDS, NOW)
+    ).toEqual([]);
+  });
+});
+
+describe("runWeatherSweep", () => {
+  const config = { ...THRESHOLDS, forecastDays: 5 };
+  let plants: IPlant[];
+  let users: IUser[];
+  let indoorSpaceIds: Types.ObjectId[];
+
+  const userAt = (lat: number, lon: number, owned: IPlant[]): IUser =>
+    ({
+      _id: new Types.ObjectId(),
+      plants: owned.map((plant) => plant._id),
+      locationDetails: { coordinates: { lat, lon } },
+    } as unknown as IUser);
+
+  const savedFlags = (plant: IPlant) =>
+    (Plant.updateOne as jest.Mock).mock.calls.find(
+      ([filter]) => filter._id === plant._id
+    )?.[1].$set.weatherFlags;
+
+  beforeEach(() => {
+    plants = [];
+    users = [];
+    indoorSpaceIds = [];
+
+    jest.spyOn(User, "find").mockImplementation((() =>
+      Promise.resolve(users)) as never);
+    jest.spyOn(Plant, "find").mockImplementation(((filter: {
+      _id: { $in: Types.ObjectId[] };
+    }) => {
+      const ids = filter._id.$in.map(String);
+      return Promise.resolve(
+        plants.filter((plant) => ids.includes(String(plant._id)))
+      );
+    }) as never);
+    jest.spyOn(Plant, "updateOne").mockResolvedValue({} as never);
+    jest.spyOn(GrowingSpace, "find").mockImplementation((() => ({
+      distinct: () => Promise.resolve(indoorSpaceIds),
+    })) as never);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("saves each plant's flags and shares forecasts", async () => {
+    const outdoor = plantDueOn("2025-06-02");
+    const other = plantDueOn("2025-06-10", "Prune");
+    plants = [outdoor, other];
+    users = [userAt(51.5, -0.13, [outdoor]), userAt(51.5, -0.13, [other])];
+    const getForecast = jest.spyOn(provider, "getForecast");
+
+    const result = await runWeatherSweep(provider, config, NOW);
+
+    expect(result).toEqual({
+      usersChecked: 2,
+      plantsChecked: 2,
+      plantsFlagged: 2,
+    });
+    expect(getForecast).toHaveBeenCalledTimes(1);
+    expect(savedFlags(outdoor)).toEqual([
+      expect.objectContaining({ action: "skip-watering" }),
+      expect.objectContaining({ action: "protect-from-frost" }),
+    ]);
+    expect(Plant.updateOne).toHaveBeenCalledWith(
+      { _id: outdoor._id },
+      { $set: { weatherFlags: expect.any(Array), weatherCheckedAt: NOW } }
+    );
+  });
+
+  it("clears the flags of plants in an indoor growing space", async () => {
+    const spaceId = new Types.ObjectId();
+    const plant = plantDueOn("2025-06-02");
+    plant.space = spaceId;
+    plants = [plant];
+    indoorSpaceIds = [spaceId];
+    users = [userAt(51.5, -0.13, [plant])];
+
+    const result = await runWeatherSweep(provider, config, NOW);
+
+    expect(result.plantsFlagged).toBe(0);
+    expect(savedFlags(plant)).toEqual([]);
+  });
+
+  it("only skips the users whose forecast failed", async () => {
+    const failing = plantDueOn("2025-06-02");
+    const working = plantDueOn("2025-06-02");
+    plants = [failing, working];
+    users = [userAt(0, 0, [failing]), userAt(51.5, -0.13, [working])];
+    const flaky: WeatherProvider = {
+      name: "flaky",
+      getForecast: (coordinates, days) =>
+        coordinates.lat === 0
+          ? Promise.reject(new Error("Forecast unavailable"))
+          : provider.getForecast(coordinates, days),
+    };
+
+    const result = await runWeatherSweep(flaky, config, NOW);
+
+    expect(result.plantsChecked).toBe(1);
+    expect(savedFlags(failing)).toBeUndefined();
+    expect(savedFlags(working)).toHaveLength(2);
+  });
+
+  it("checks against the forecast it was given", async () => {
+    const plant = plantDueOn("2025-06-02");
+    plants = [plant];
+    users = [userAt(51.5, -0.13, [plant])];
+    const dry: WeatherProvider = {
+      name: "dry",
+      getForecast: async () => dryForecast(["2025-06-01", "2025-06-02"]),
+    };
+
+    expect((await runWeatherSweep(dry, config, NOW)).plantsFlagged).toBe(0);
+  });
+});
@@ -0,0 +1,152 @@
+import { z } from "zod";
+import {
+  AIProvider,
+  AIRequest,
+  AIResponseValidationError,
+  generateStructured,
+  recommendationListSchema,
+  setAIProvider,
+} from "..";
+import { createStubProvider } from "../stubProvider";
+
+const itemSchema = z.object({ name: z.string(), count: z.number() });
+
+// Provider that answers with the given replies in turn and records prompts
+const scriptedProvider = (replies: string[]) => {
+  const prompts: string[] = [];
+  const provider: AIProvider = {
+    name: "scripted",
+    model: "scripted-model",
+    async generate(request: AIRequest) {
+      prompts.push(request.prompt);
+      return replies[Math.min(prompts.length - 1, replies.length - 1)];
+    },
+    async *generateStream() {
+      throw new Error("Not used");
+    },
+  };
+  return { provider, prompts };
+};
+
+describe("generateStructured", () => {
+  const originalRepairAttempts = process.env.AI_MAX_REPAIR_ATTEMPTS;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env.AI_MAX_REPAIR_ATTEMPTS = "2";
+    errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setAIProvider(null);
+    errorSpy.mockRestore();
+    if (originalRepairAttempts === undefined) {
+      delete process.env.AI_MAX_REPAIR_ATTEMPTS;
+    } else {
+      process.env.AI_MAX_REPAIR_ATTEMPTS = originalRepairAttempts;
+    }
+  });
+
+  it("parses the stub provider's fixture against the schema", async () => {
+    setAIProvider(createStubProvider());
+
+    const recommendations = await generateStructured(
+      { task: "recommendations", prompt: "Recommend plants" },
+      recommendationListSchema,
+      "array"
+    );
+
+    expect(recommendations.length).toBeGreaterThan(0);
+    recommendations.forEach((rec) => {
+      expect(typeof rec.name).toBe("string");
+      expect(rec.steps.length).toBeGreaterThan(0);
+    });
+  });
+
+  it("accepts a reply wrapped in a code fence and prose", async () => {
+    const { provider } = scriptedProvider([
+      'Sure!\n```json\n{"name":"Basil","count":2}\n```',
+    ]);
+    setAIProvider(provider);
+
+    await expect(
+      generateStructured(
+        { task: "chat", prompt: "Question" },
+        itemSchema,
+        "object"
+      )
+    ).resolves.toEqual({ name: "Basil", count: 2 });
+  });
+
+  it("re-prompts with the problems found and returns the repaired reply", async () => {
+    const { provider, prompts } = scriptedProvider([
+      '{"name":"Basil","count":"two"}',
+      '{"name":"Basil","count":2}',
+    ]);
+    setAIProvider(provider);
+
+    const result = await generateStructured(
+      { task: "chat", prompt: "Question" },
+      itemSchema,
+      "object"
+    );
+
+    expect(result).toEqual({ name: "Basil", count: 2 });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toBe("Question");
+    expect(prompts[1]).toMatch(/^Question/);
+    expect(prompts[1]).toContain("- count:");
+    expect(prompts[1]).toContain('{"name":"Basil","count":"two"}');
+  });
+
+  it("treats a reply without JSON as a problem to repair", async () => {
+    const { provider, prompts } = scriptedProvider([
+      "I cannot help with that",
+      '{"name":"Mint","count":1}',
+    ]);
+    setAIProvider(provider);
+
+    await expect(
+      generateStructured(
+        { task: "chat", prompt: "Question" },
+        itemSchema,
+        "object"
+      )
+    ).resolves.toEqual({ name: "Mint", count: 1 });
+    expect(prompts[1]).toContain("- (root): No JSON object found in response");
+  });
+
+  it("gives up after the configured number of repairs", async () => {
+    const { provider, prompts } = scriptedProvider(['{"name":"Basil"}']);
+    setAIProvider(provider);
+
+    const attempt = generateStructured(
+      { task: "chat", prompt: "Question" },
+      itemSchema,
+      "object"
+    );
+
+    await expect(attempt).rejects.toBeInstanceOf(AIResponseValidationError);
+    await expect(attempt).rejects.toMatchObject({
+      task: "chat",
+      attempts: 3,
+      fieldErrors: [{ field: "count" }],
+    });
+    expect(prompts).toHaveLength(3);
+  });
+
+  it("does not repair when repairs are disabled", async () => {
+    process.env.AI_MAX_REPAIR_ATTEMPTS = "0";
+    const { provider, prompts } = scriptedProvider(["[]"]);
+    setAIProvider(provider);
+
+    await expect(
+      generateStructured(
+        { task: "chat", prompt: "Question" },
+        itemSchema,
+        "object"
+      )
+    ).rejects.toBeInstanceOf(AIResponseValidationError);
+    expect(prompts).toHaveLength(1);
+  });
+});
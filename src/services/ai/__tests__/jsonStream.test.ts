@@ -0,0 +1,68 @@
+import { createJsonArrayStreamParser } from "../jsonStream";
+
+const collect = (chunks: string[]) => {
+  const elements: unknown[] = [];
+  const invalid: number[] = [];
+  const parser = createJsonArrayStreamParser(
+    (value) => elements.push(value),
+    (_error, index) => invalid.push(index)
+  );
+  chunks.forEach((chunk) => parser.write(chunk));
+  return { elements, invalid, done: parser.done };
+};
+
+describe("createJsonArrayStreamParser", () => {
+  it("emits each element of an array written in one chunk", () => {
+    const { elements, done } = collect(['[{"a":1},{"b":[2,3]},"x",4,null]']);
+
+    expect(elements).toEqual([{ a: 1 }, { b: [2, 3] }, "x", 4, null]);
+    expect(done).toBe(true);
+  });
+
+  it("handles values split across chunks", () => {
+    const text = '[{"name":"Basil","tags":["herb","sun"]},{"name":"Mint"}]';
+    const { elements } = collect(text.split(""));
+
+    expect(elements).toEqual([
+      { name: "Basil", tags: ["herb", "sun"] },
+      { name: "Mint" },
+    ]);
+  });
+
+  it("emits an object as soon as it closes", () => {
+    const elements: unknown[] = [];
+    const parser = createJsonArrayStreamParser((value) => elements.push(value));
+
+    parser.write('[{"a":1}');
+    expect(elements).toEqual([{ a: 1 }]);
+    expect(parser.done).toBe(false);
+  });
+
+  it("ignores brackets and quotes inside strings", () => {
+    const { elements } = collect(['[{"text":"a ] b, } \\" ["}]']);
+
+    expect(elements).toEqual([{ text: 'a ] b, } " [' }]);
+  });
+
+  it("skips text around the array", () => {
+    const { elements } = collect([
+      "Here you go:\n```json\n",
+      '[{"a":1}]',
+      "\n```\nEnjoy [1,2]",
+    ]);
+
+    expect(elements).toEqual([{ a: 1 }]);
+  });
+
+  it("reports invalid elements and keeps going", () => {
+    const { elements, invalid } = collect(["[1, nope, 3]"]);
+
+    expect(elements).toEqual([1, 3]);
+    expect(invalid).toEqual([1]);
+  });
+
+  it("is not done until the array closes", () => {
+    expect(collect(['[{"a":1},']).done).toBe(false);
+    expect(collect(["[]"])).toEqual({ elements: [], invalid: [], done: true });
+  });
+});
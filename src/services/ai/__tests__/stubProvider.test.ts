@@ -0,0 +1,54 @@
+import { getAIProvider, setAIProvider } from "..";
+import recommendations from "../fixtures/recommendations.json";
+import { createStubProvider } from "../stubProvider";
+
+const collect = async (chunks: AsyncIterable<string>): Promise<string[]> => {
+  const collected: string[] = [];
+  for await (const chunk of chunks) {
+    collected.push(chunk);
+  }
+  return collected;
+};
+
+describe("stub AI provider", () => {
+  const originalProvider = process.env.AI_PROVIDER;
+
+  afterEach(() => {
+    setAIProvider(null);
+    if (originalProvider === undefined) {
+      delete process.env.AI_PROVIDER;
+    } else {
+      process.env.AI_PROVIDER = originalProvider;
+    }
+  });
+
+  it("is used by default when NODE_ENV=test", () => {
+    delete process.env.AI_PROVIDER;
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+    expect(getAIProvider().name).toBe("stub");
+  });
+
+  it("answers with the fixture for the task", async () => {
+    const text = await createStubProvider().generate({
+      task: "recommendations",
+      prompt: "Recommend plants",
+    });
+
+    expect(JSON.parse(text)).toEqual(recommendations);
+  });
+
+  it("streams the same text in several chunks", async () => {
+    const provider = createStubProvider();
+    const request = { task: "recommendations" as const, prompt: "" };
+
+    const chunks = await collect(provider.generateStream(request));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe(await provider.generate(request));
+  });
+
+  it("reports the configured model name", () => {
+    expect(createStubProvider("stub-model").model).toBe("stub-model");
+  });
+});
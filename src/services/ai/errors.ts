@@ -0,0 +1,27 @@
+import { ApiError } from "../../errors";
+
+export interface AIFieldError {
+  field: string;
+  message: string;
+}
+
+// Thrown when the model keeps returning a payload that fails its schema,
+// even after the corrective re-prompts.
+export class AIResponseValidationError extends ApiError {
+  constructor(
+    public readonly task: string,
+    public readonly fieldErrors: AIFieldError[],
+    public readonly attempts: number
+  ) {
+    super(
+      422,
+      "ai_invalid_response",
+      "The AI response did not match the expected format.",
+      { attempts, invalidFields: fieldErrors },
+      `Invalid AI response for ${task} after ${attempts} attempt(s): ${fieldErrors
+        .map((e) => `${e.field}: ${e.message}`)
+        .join("; ")}`
+    );
+    this.name = "AIResponseValidationError";
+  }
+}
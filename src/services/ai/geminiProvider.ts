@@ -0,0 +1,100 @@
+import { GoogleGenAI } from "@google/genai";
+import { ApiError, RateLimitError, UpstreamAIError } from "../../errors";
+import { AIProvider, AIRequest } from "./types";
+
+// The SDK reports HTTP failures as "got status: 429 Too Many Requests. {...}"
+const STATUS_PATTERN = /got status: (\d{3})/;
+
+// Translate SDK and configuration failures into errors that are safe to
+// show clients; the original message is kept for the logs
+const toProviderError = (error: unknown): Error => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = Number(STATUS_PATTERN.exec(message)?.[1]);
+  if (status === 429) {
+    return new RateLimitError(
+      "The AI service is busy. Please try again shortly.",
+      undefined,
+      message
+    );
+  }
+  return new UpstreamAIError(
+    "The AI service could not complete the request.",
+    message
+  );
+};
+
+export const createGeminiProvider = (
+  model: string,
+  apiKey?: string
+): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new UpstreamAIError(
+        "The AI service is not configured.",
+        "GEMINI_API_KEY is not set in environment variables"
+      );
+    }
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  const contentsFor = (request: AIRequest) => [
+    { role: "user", parts: [{ text: request.prompt }] },
+    ...(request.images || []).map((image) => ({
+      role: "user",
+      parts: [{ inlineData: { data: image.data, mimeType: image.mimeType } }],
+    })),
+  ];
+
+  return {
+    name: "gemini",
+    model,
+    async generate(request: AIRequest): Promise<string> {
+      let text: string | undefined;
+      try {
+        const response = await getClient().models.generateContent({
+          model,
+          contents: contentsFor(request),
+        });
+        text = response.text;
+        if (!text) {
+          console.error("Gemini API Response:", response);
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+
+      if (!text) {
+        throw new UpstreamAIError(
+          "The AI service returned an empty response.",
+          "No response text from Gemini API"
+        );
+      }
+      return text;
+    },
+    async *generateStream(request: AIRequest): AsyncIterable<string> {
+      try {
+        const stream = await getClient().models.generateContentStream({
+          model,
+          contents: contentsFor(request),
+        });
+
+        for await (const chunk of stream) {
+          if (chunk.text) {
+            yield chunk.text;
+          }
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+};
@@ -0,0 +1,195 @@
+import { getAIConfig } from "../../config/ai";
+import { createGeminiProvider } from "./geminiProvider";
+import { createStubProvider } from "./stubProvider";
+import { z, ZodError, ZodTypeAny } from "zod";
+import { AIFieldError, AIResponseValidationError } from "./errors";
+import { createJsonArrayStreamParser } from "./jsonStream";
+import {
+  AIGenerationInfo,
+  AIProvider,
+  AIRequest,
+  AITask,
+  PROMPT_VERSIONS,
+} from "./types";
+
+export * from "./types";
+export * from "./errors";
+export * from "./schemas";
+export { createJsonArrayStreamParser } from "./jsonStream";
+
+let provider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!provider) {
+    const config = getAIConfig();
+    provider =
+      config.provider === "stub"
+        ? createStubProvider(config.model)
+        : createGeminiProvider(config.model, config.apiKey);
+    console.log(`Using AI provider "${provider.name}" (${provider.model})`);
+  }
+  return provider;
+};
+
+// Swap the active provider, e.g. for an in-process test harness
+export const setAIProvider = (next: AIProvider | null): void => {
+  provider = next;
+};
+
+// Model and prompt revision used for a task, recorded alongside generated data
+export const getGenerationInfo = (task: AITask): AIGenerationInfo => ({
+  model: getAIProvider().model,
+  promptVersion: PROMPT_VERSIONS[task],
+});
+
+// Pull the first JSON array or object out of a model reply, tolerating
+// markdown code fences and surrounding prose.
+export const parseJsonResponse = (
+  text: string,
+  shape: "array" | "object"
+): unknown => {
+  const jsonMatch =
+    shape === "array" ? text.match(/\[[\s\S]*\]/) : text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error(`No JSON ${shape} found in response`);
+  }
+
+  const jsonStr = jsonMatch[0]
+    .replace(/```json\n?/g, "")
+    .replace(/```\n?/g, "")
+    .trim();
+
+  return JSON.parse(jsonStr);
+};
+
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>(
+    (acc, key) =>
+      typeof key === "number" ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key,
+    ""
+  ) || "(root)";
+
+const toFieldErrors = (error: ZodError): AIFieldError[] =>
+  error.issues.map((issue) => ({
+    field: formatPath(issue.path),
+    message: issue.message,
+  }));
+
+const buildRepairPrompt = (
+  request: AIRequest,
+  previous: string,
+  fieldErrors: AIFieldError[]
+): string => `${request.prompt}
+
+Your previous response could not be used because of these problems:
+${fieldErrors.map((e) => `- ${e.field}: ${e.message}`).join("\n")}
+
+Previous response:
+${previous}
+
+Return ONLY the corrected JSON with every problem fixed. Do not include any markdown formatting or additional text.`;
+
+// Generate a response, check it against the schema and, on failure, re-prompt
+// the model with the list of problems up to the configured number of times.
+export const generateStructured = async <S extends ZodTypeAny>(
+  request: AIRequest,
+  schema: S,
+  shape: "array" | "object"
+): Promise<z.output<S>> => {
+  const { maxRepairAttempts } = getAIConfig();
+  const ai = getAIProvider();
+  let prompt = request.prompt;
+  let fieldErrors: AIFieldError[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    const text = await ai.generate({ ...request, prompt });
+
+    let json: unknown;
+    try {
+      json = parseJsonResponse(text, shape);
+    } catch (parseError) {
+      fieldErrors = [
+        {
+          field: "(root)",
+          message:
+            parseError instanceof Error
+              ? parseError.message
+              : "Unknown parsing error",
+        },
+      ];
+    }
+
+    if (json !== undefined) {
+      const result = schema.safeParse(json);
+      if (result.success) {
+        return result.data;
+      }
+      fieldErrors = toFieldErrors(result.error);
+    }
+
+    console.error(
+      `Invalid AI response for ${request.task} (attempt ${attempt}):`,
+      fieldErrors
+    );
+    prompt = buildRepairPrompt(request, text, fieldErrors);
+  }
+
+  throw new AIResponseValidationError(
+    request.task,
+    fieldErrors,
+    maxRepairAttempts + 1
+  );
+};
+
+export interface StreamedElement<T> {
+  index: number;
+  // Set when the element matched the schema
+  value?: T;
+  // Set when it did not; streamed elements are not repaired
+  fieldErrors?: AIFieldError[];
+}
+
+// Stream a JSON array response, validating each element against `schema`
+// as soon as it is complete. Breaking out of the loop stops the model.
+export async function* generateStructuredStream<S extends ZodTypeAny>(
+  request: AIRequest,
+  schema: S
+): AsyncGenerator<StreamedElement<z.output<S>>> {
+  const pending: StreamedElement<z.output<S>>[] = [];
+  let received = 0;
+
+  const parser = createJsonArrayStreamParser(
+    (value, index) => {
+      received++;
+      const result = schema.safeParse(value);
+      pending.push(
+        result.success
+          ? { index, value: result.data }
+          : { index, fieldErrors: toFieldErrors(result.error) }
+      );
+    },
+    (error, index) => {
+      received++;
+      pending.push({
+        index,
+        fieldErrors: [{ field: "(root)", message: error.message }],
+      });
+    }
+  );
+
+  for await (const chunk of getAIProvider().generateStream(request)) {
+    parser.write(chunk);
+    yield* pending.splice(0);
+    if (parser.done) {
+      return;
+    }
+  }
+
+  if (received === 0) {
+    throw new AIResponseValidationError(
+      request.task,
+      [{ field: "(root)", message: "No JSON array found in response" }],
+      1
+    );
+  }
+}
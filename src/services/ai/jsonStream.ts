@@ -0,0 +1,94 @@
+// Incremental parser for a JSON array arriving in arbitrary text chunks.
+// Each top-level element is handed to `onElement` as soon as its closing
+// bracket arrives, so callers can act on it before the array is finished.
+// Text before the opening "[" (prose, a ```json fence) is ignored, as is
+// anything after the closing "]".
+export interface JsonArrayStreamParser {
+  write(chunk: string): void;
+  // True once the closing "]" of the array has been seen
+  readonly done: boolean;
+}
+
+export const createJsonArrayStreamParser = (
+  onElement: (value: unknown, index: number) => void,
+  onInvalidElement: (error: Error, index: number) => void = () => undefined
+): JsonArrayStreamParser => {
+  let started = false;
+  let done = false;
+  // Nesting depth inside the top-level array; 0 between elements
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let element = "";
+  let index = 0;
+
+  const emit = () => {
+    const text = element.trim();
+    element = "";
+    if (!text) {
+      return;
+    }
+    try {
+      onElement(JSON.parse(text), index);
+    } catch (error) {
+      onInvalidElement(
+        error instanceof Error ? error : new Error(String(error)),
+        index
+      );
+    }
+    index++;
+  };
+
+  const writeChar = (char: string) => {
+    if (!started) {
+      started = char === "[";
+      return;
+    }
+
+    if (inString) {
+      element += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      return;
+    }
+
+    if (depth === 0 && (char === "," || char === "]")) {
+      emit();
+      done = char === "]";
+      return;
+    }
+
+    element += char;
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+      // Hand over an object or array element without waiting for the
+      // separator that follows it
+      if (depth === 0) {
+        emit();
+      }
+    }
+  };
+
+  return {
+    write(chunk: string) {
+      for (const char of chunk) {
+        if (done) {
+          return;
+        }
+        writeChar(char);
+      }
+    },
+    get done() {
+      return done;
+    },
+  };
+};
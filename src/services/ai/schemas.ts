@@ -0,0 +1,111 @@
+import { z } from "zod";
+
+// Models routinely return numbers where we asked for strings and vice versa,
+// so the primitive helpers below coerce the obvious cases before validating.
+
+const text = z.preprocess(
+  (value) => (typeof value === "number" ? String(value) : value),
+  z.string().trim().min(1)
+);
+
+const successRate = z.preprocess((value) => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // Accept both 0.85 and 85 as "85%"
+    return `${Math.round(value <= 1 ? value * 100 : value)}%`;
+  }
+  return value;
+}, z.string().trim().min(1));
+
+const flag = z.preprocess((value) => {
+  if (typeof value === "string") {
+    const normalised = value.trim().toLowerCase();
+    if (normalised === "true" || normalised === "yes") return true;
+    if (normalised === "false" || normalised === "no") return false;
+  }
+  return value;
+}, z.boolean());
+
+const textList = z.preprocess(
+  (value) => (typeof value === "string" ? [value] : value),
+  z.array(text)
+);
+
+// Image URLs are best effort; a malformed one is dropped rather than
+// failing the whole payload.
+const imageUrl = z.string().trim().url().optional().catch(undefined);
+
+export const stepSchema = z.object({
+  title: text,
+  description: text,
+  estimatedTime: text,
+});
+
+export const recommendationSchema = z.object({
+  name: text,
+  description: text,
+  successRate,
+  imageUrl,
+  steps: z.array(stepSchema).min(1),
+  difficultyLevel: text,
+});
+
+export const recommendationListSchema = z.array(recommendationSchema).min(1);
+
+export const customPlantSchema = z.discriminatedUnion("isValid", [
+  recommendationSchema.extend({ isValid: z.literal(true) }),
+  z.object({
+    isValid: z.literal(false),
+    error: z.string().optional(),
+  }),
+]);
+
+export const diagnosisSchema = z
+  .object({
+    healthCondition: text,
+    issues: textList,
+    recommendations: textList,
+    growthStage: text,
+    needsTreatment: flag.default(false),
+    treatmentSteps: z.array(stepSchema).default([]),
+  })
+  .superRefine((analysis, ctx) => {
+    if (analysis.needsTreatment && analysis.treatmentSteps.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["treatmentSteps"],
+        message: "Treatment steps are required when needsTreatment is true",
+      });
+    }
+  });
+
+const stepId = z.coerce.number().int().positive();
+
+export const stepProposalSchema = z.discriminatedUnion("action", [
+  stepSchema.extend({
+    action: z.literal("add"),
+    afterStepId: stepId.nullish().transform((id) => id ?? undefined),
+    reason: text,
+  }),
+  stepSchema.partial().extend({
+    action: z.literal("update"),
+    stepId,
+    reason: text,
+  }),
+  z.object({
+    action: z.literal("skip"),
+    stepId,
+    reason: text,
+  }),
+]);
+
+export const chatReplySchema = z.object({
+  reply: text,
+  proposedChanges: z.array(stepProposalSchema).default([]),
+});
+
+export type AIStep = z.infer<typeof stepSchema>;
+export type AIRecommendation = z.infer<typeof recommendationSchema>;
+export type AICustomPlant = z.infer<typeof customPlantSchema>;
+export type AIDiagnosis = z.infer<typeof diagnosisSchema>;
+export type AIStepProposal = z.infer<typeof stepProposalSchema>;
+export type AIChatReply = z.infer<typeof chatReplySchema>;
@@ -0,0 +1,40 @@
+import { AIProvider, AIRequest, AITask } from "./types";
+import recommendations from "./fixtures/recommendations.json";
+import customPlant from "./fixtures/customPlant.json";
+import diagnosis from "./fixtures/diagnosis.json";
+import chat from "./fixtures/chat.json";
+
+const fixtures: Record<AITask, unknown> = {
+  recommendations,
+  customPlant,
+  diagnosis,
+  chat,
+};
+
+// Streamed responses are cut into chunks this size, small enough to split
+// JSON values across chunks
+const STREAM_CHUNK_SIZE = 64;
+
+const fixtureText = (request: AIRequest): string => {
+  const fixture = fixtures[request.task];
+  if (fixture === undefined) {
+    throw new Error(`No stub fixture for AI task "${request.task}"`);
+  }
+  return JSON.stringify(fixture, null, 2);
+};
+
+// Deterministic offline provider that answers every request with the
+// bundled fixture for its task.
+export const createStubProvider = (model = "stub"): AIProvider => ({
+  name: "stub",
+  model,
+  async generate(request: AIRequest): Promise<string> {
+    return fixtureText(request);
+  },
+  async *generateStream(request: AIRequest): AsyncIterable<string> {
+    const text = fixtureText(request);
+    for (let start = 0; start < text.length; start += STREAM_CHUNK_SIZE) {
+      yield text.slice(start, start + STREAM_CHUNK_SIZE);
+    }
+  },
+});
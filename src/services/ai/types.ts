@@ -0,0 +1,38 @@
+// The kinds of generation the service asks a model for. Providers may use
+// this to pick a fixture, a model or a response format.
+export type AITask = "recommendations" | "customPlant" | "diagnosis" | "chat";
+
+// Bump the matching entry whenever a task's prompt changes meaningfully, so
+// stored plants can be traced back to the prompt that produced them.
+export const PROMPT_VERSIONS: Record<AITask, string> = {
+  recommendations: "v2",
+  customPlant: "v3",
+  diagnosis: "v1",
+  chat: "v1",
+};
+
+export interface AIImage {
+  data: string; // base64 encoded, without a data URL prefix
+  mimeType: string;
+}
+
+export interface AIRequest {
+  task: AITask;
+  prompt: string;
+  images?: AIImage[];
+}
+
+export interface AIGenerationInfo {
+  model: string;
+  promptVersion: string;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  // Returns the raw text produced by the model
+  generate(request: AIRequest): Promise<string>;
+  // Yields the raw text as the model produces it. Stopping iteration early
+  // abandons the rest of the response.
+  generateStream(request: AIRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,89 @@
+import speciesData from "../data/species.json";
+import Species, { ISpecies } from "../models/Species";
+
+// Canonical species catalog. The bundled dataset in src/data/species.json is
+// upserted into the Species collection at startup; plant names are matched
+// against each record's normalised common name and aliases.
+
+type SpeciesRecord = Pick<
+  ISpecies,
+  | "slug"
+  | "commonName"
+  | "aliases"
+  | "scientificName"
+  | "family"
+  | "sunRequirement"
+  | "minSunlightHours"
+  | "waterNeeds"
+  | "daysToMaturity"
+>;
+
+export const normaliseName = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const searchTermsFor = (record: { commonName: string; aliases: string[] }) => [
+  ...new Set([record.commonName, ...record.aliases].map(normaliseName)),
+];
+
+// Every run of consecutive words in a name, longest first, so that
+// "Cherry Tomato Sungold" can match "cherry tomato" or "tomato"
+const nameCandidates = (name: string): string[] => {
+  const words = normaliseName(name).split(" ").filter(Boolean);
+  const candidates: string[] = [];
+  for (let length = words.length; length > 0; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      candidates.push(words.slice(start, start + length).join(" "));
+    }
+  }
+  return candidates;
+};
+
+// Upsert the bundled dataset. Safe to run on every startup.
+export const seedSpecies = async (): Promise<number> => {
+  const records = speciesData as SpeciesRecord[];
+  await Species.bulkWrite(
+    records.map((record) => ({
+      updateOne: {
+        filter: { slug: record.slug },
+        update: { $set: { ...record, searchTerms: searchTermsFor(record) } },
+        upsert: true,
+      },
+    }))
+  );
+  return records.length;
+};
+
+// The species whose name or alias best matches a free-text plant name, or
+// null when nothing in the catalog does. Longer matches win.
+export const matchSpecies = async (name: string): Promise<ISpecies | null> => {
+  const candidates = nameCandidates(name);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const matches = await Species.find({ searchTerms: { $in: candidates } });
+  const rank = (species: ISpecies) =>
+    Math.min(
+      ...species.searchTerms
+        .map((term) => candidates.indexOf(term))
+        .filter((index) => index >= 0)
+    );
+
+  return matches.sort((a, b) => rank(a) - rank(b))[0] || null;
+};
+
+// Extra prompt lines with the catalog's view of a species
+export const describeSpecies = (species?: ISpecies | null): string => {
+  if (!species) {
+    return "";
+  }
+  const { min, max } = species.daysToMaturity;
+  return `
+    - Catalog species: ${species.commonName} (${species.scientificName})
+    - Typical needs: ${species.sunRequirement}, at least ${species.minSunlightHours} hours of sun, ${species.waterNeeds} water, ${min}-${max} days to maturity`;
+};
@@ -0,0 +1,243 @@
+import { Types } from "mongoose";
+import ChatMessage, {
+  IChatMessage,
+  IStepProposal,
+} from "../models/ChatMessage";
+import Diagnosis, { IDiagnosis } from "../models/Diagnosis";
+import GrowingSpace, { IGrowingSpace } from "../models/GrowingSpace";
+import { IPlant } from "../models/Plant";
+import { IUser } from "../models/User";
+import {
+  AIStepProposal,
+  chatReplySchema,
+  generateStructured,
+  getGenerationInfo,
+} from "./ai";
+import { describeClimate } from "./geo";
+import { describeSpace } from "./spaces";
+import { addCustomStep, setStepStatus } from "./steps";
+
+// How much of the plant's history goes into each prompt
+const HISTORY_MESSAGES = 20;
+const RECENT_DIAGNOSES = 3;
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+export interface ChatExchange {
+  question: IChatMessage;
+  answer: IChatMessage;
+}
+
+interface ChatContext {
+  user: IUser;
+  plant: IPlant;
+  space: IGrowingSpace | null;
+  diagnoses: IDiagnosis[];
+  history: IChatMessage[];
+}
+
+const describeSteps = (plant: IPlant): string =>
+  plant.steps
+    .map(
+      (step) =>
+        `    - [id ${step.id}] ${step.title} (${step.status}, ${step.kind}): ${step.description} Estimated time: ${step.estimatedTime}`
+    )
+    .join("\n") || "    (no steps)";
+
+const describeDiagnoses = (diagnoses: IDiagnosis[]): string =>
+  diagnoses
+    .map(
+      (diagnosis) =>
+        `    - ${diagnosis.createdAt.toISOString().slice(0, 10)}: ${diagnosis.healthCondition}, ${diagnosis.growthStage} stage. Issues: ${diagnosis.issues.join(", ") || "none"}`
+    )
+    .join("\n") || "    (none)";
+
+const describeHistory = (history: IChatMessage[]): string =>
+  history
+    .map(
+      (message) =>
+        `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`
+    )
+    .join("\n") || "(this is the first message)";
+
+export const buildChatPrompt = (
+  context: ChatContext,
+  question: string
+): string => {
+  const { user, plant, space, diagnoses, history } = context;
+
+  return `You are a gardening assistant helping a user grow ${plant.plantName}.
+
+    Growing conditions:
+    - Location: ${user.location || plant.growingContext?.location || "unknown"}${describeClimate(user.locationDetails)}
+    - Hours of direct sunlight: ${space?.sunlightHours ?? user.sunlightHours ?? "unknown"} hours
+    - Available space: ${space?.spaceType || user.availableSpace || "unknown"}${describeSpace(space)}
+
+    The user's growing steps, in order, with their status:
+${describeSteps(plant)}
+
+    Recent health diagnoses, newest first:
+${describeDiagnoses(diagnoses)}
+
+Conversation so far:
+${describeHistory(history)}
+
+User: ${question}
+
+    Answer the user's question in plain language, referring to their steps by title where it helps.
+    If, and only if, their steps should change, propose the changes. Each change is one of:
+    - "add": a new step, placed after the step with id "afterStepId" (omit it to add at the end)
+    - "update": new text for the step with id "stepId"; include only the fields that change
+    - "skip": mark the step with id "stepId" as no longer needed
+    The user reviews every change before it is applied, so explain each one in "reason".
+
+    IMPORTANT: Return ONLY a valid JSON object with these exact properties:
+    {
+      "reply": "Your answer to the user",
+      "proposedChanges": [
+        {
+          "action": "add",
+          "afterStepId": 3,
+          "title": "Step title",
+          "description": "Detailed description of what needs to be done",
+          "estimatedTime": "Time estimate (e.g., '2 weeks', '1 month')",
+          "reason": "Why this change helps"
+        }
+      ]
+    }
+    Use an empty "proposedChanges" array when nothing needs to change.`;
+};
+
+// Drop proposals that point at steps the plant does not have, or that
+// would not change anything
+const usableProposals = (
+  plant: IPlant,
+  proposals: AIStepProposal[]
+): AIStepProposal[] => {
+  const stepIds = new Set(plant.steps.map((step) => step.id));
+
+  return proposals.filter((proposal) => {
+    switch (proposal.action) {
+      case "add":
+        return (
+          proposal.afterStepId === undefined ||
+          stepIds.has(proposal.afterStepId)
+        );
+      case "update":
+        return (
+          stepIds.has(proposal.stepId) &&
+          [proposal.title, proposal.description, proposal.estimatedTime].some(
+            (field) => field !== undefined
+          )
+        );
+      case "skip":
+        return stepIds.has(proposal.stepId);
+    }
+  });
+};
+
+// The plant's thread, oldest message first. A question and its answer can
+// share a timestamp, so ties are broken by insertion order.
+export const getChatThread = (
+  user: IUser,
+  plant: IPlant,
+  limit?: number
+): Promise<IChatMessage[]> =>
+  ChatMessage.find({ plant: plant._id, user: user._id })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit || 0)
+    .then((messages) => messages.reverse());
+
+// Ask the assistant about a plant. The question and answer are only stored
+// once the model has replied, so a failed call leaves the thread untouched.
+export const askPlantAssistant = async (
+  user: IUser,
+  plant: IPlant,
+  question: string
+): Promise<ChatExchange> => {
+  const [space, diagnoses, history] = await Promise.all([
+    plant.space ? GrowingSpace.findById(plant.space) : null,
+    Diagnosis.find({ plant: plant._id })
+      .sort({ createdAt: -1 })
+      .limit(RECENT_DIAGNOSES),
+    getChatThread(user, plant, HISTORY_MESSAGES),
+  ]);
+
+  const result = await generateStructured(
+    {
+      task: "chat",
+      prompt: buildChatPrompt(
+        { user, plant, space, diagnoses, history },
+        question
+      ),
+    },
+    chatReplySchema,
+    "object"
+  );
+
+  const thread = { user: user._id, plant: plant._id };
+  const questionMessage = await ChatMessage.create({
+    ...thread,
+    role: "user",
+    content: question,
+  });
+  const answer = await ChatMessage.create({
+    ...thread,
+    role: "assistant",
+    content: result.reply,
+    proposals: usableProposals(plant, result.proposedChanges),
+    generation: getGenerationInfo("chat"),
+  });
+
+  return { question: questionMessage, answer };
+};
+
+// Message in the user's thread for the plant that holds `proposalId`
+export const findProposalMessage = (
+  user: IUser,
+  plant: IPlant,
+  proposalId: string
+): Promise<IChatMessage | null> =>
+  Types.ObjectId.isValid(proposalId)
+    ? ChatMessage.findOne({
+        plant: plant._id,
+        user: user._id,
+        "proposals._id": new Types.ObjectId(proposalId),
+      })
+    : Promise.resolve(null);
+
+// Apply a confirmed proposal to the plant. Returns the id of the step that
+// changed, or null when the step it refers to no longer exists.
+export const applyProposal = (
+  plant: IPlant,
+  proposal: IStepProposal
+): number | null => {
+  if (proposal.action === "add") {
+    const insertion = addCustomStep(
+      plant,
+      {
+        title: proposal.title as string,
+        description: proposal.description as string,
+        estimatedTime: proposal.estimatedTime as string,
+      },
+      proposal.afterStepId
+    );
+    return insertion ? insertion.addedSteps[0].id : null;
+  }
+
+  const step = plant.steps.find((s) => s.id === proposal.stepId);
+  if (!step) {
+    return null;
+  }
+
+  if (proposal.action === "skip") {
+    setStepStatus(step, "skipped");
+  } else {
+    (["title", "description", "estimatedTime"] as const).forEach((field) => {
+      if (proposal[field]) {
+        step[field] = proposal[field] as string;
+      }
+    });
+  }
+  return step.id;
+};
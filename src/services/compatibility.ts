@@ -0,0 +1,167 @@
+import companions from "../data/companions.json";
+import { IGrowingSpace } from "../models/GrowingSpace";
+import { IPlant } from "../models/Plant";
+
+// Advisory checks run when a plant is activated: will it fit in its growing
+// space, and does it sit well with the plants already active there? Known
+// pairs and per-plant footprints come from src/data/companions.json.
+
+interface CompanionPlant {
+  name: string;
+  aliases: string[];
+  footprintSqM: number;
+}
+
+interface CompanionPair {
+  plants: string[];
+  relation: "companion" | "antagonist";
+  reason: string;
+}
+
+export type ActivationWarningCode = "over-capacity" | "antagonist";
+
+export interface ActivationWarning {
+  code: ActivationWarningCode;
+  message: string;
+  // The active plant involved, for antagonist warnings
+  plantId?: string;
+  plantName?: string;
+}
+
+export interface CompanionNote {
+  plantId: string;
+  plantName: string;
+  reason: string;
+}
+
+export interface CapacityEstimate {
+  spaceId: string;
+  areaSqM: number;
+  // Estimated area taken by the plants already active in the space
+  usedSqM: number;
+  requiredSqM: number;
+  // Share of the space in use once this plant is added, 1 = full
+  utilisation: number;
+}
+
+export interface ActivationCheck {
+  // Null when the plant is not assigned to a growing space
+  capacity: CapacityEstimate | null;
+  companions: CompanionNote[];
+  warnings: ActivationWarning[];
+}
+
+const PLANTS = companions.plants as CompanionPlant[];
+const PAIRS = companions.pairs as CompanionPair[];
+
+const normalise = (text: string): string =>
+  ` ${text.toLowerCase().replace(/[^a-z]+/g, " ").trim()} `;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Table entry for a plant name, matching names and aliases as whole words so
+// that "Cherry Tomato" finds tomato. The longest match wins.
+export const findCompanionPlant = (
+  plantName: string
+): CompanionPlant | null => {
+  const name = normalise(plantName);
+  let best: CompanionPlant | null = null;
+  let bestLength = 0;
+
+  PLANTS.forEach((plant) => {
+    [plant.name, ...plant.aliases].forEach((alias) => {
+      const candidate = normalise(alias);
+      if (name.includes(candidate) && candidate.length > bestLength) {
+        best = plant;
+        bestLength = candidate.length;
+      }
+    });
+  });
+
+  return best;
+};
+
+const relationBetween = (a: string, b: string): CompanionPair | undefined =>
+  PAIRS.find(
+    (pair) =>
+      (pair.plants[0] === a && pair.plants[1] === b) ||
+      (pair.plants[0] === b && pair.plants[1] === a)
+  );
+
+export const footprintOf = (
+  plant: IPlant,
+  defaultFootprintSqM: number
+): number =>
+  findCompanionPlant(plant.plantName)?.footprintSqM ?? defaultFootprintSqM;
+
+// Check `plant` against its space and the plants already active alongside
+// it. `neighbours` should not include the plant itself.
+export const checkActivation = (
+  plant: IPlant,
+  space: IGrowingSpace | null,
+  neighbours: IPlant[],
+  defaultFootprintSqM: number
+): ActivationCheck => {
+  const check: ActivationCheck = {
+    capacity: null,
+    companions: [],
+    warnings: [],
+  };
+
+  if (space) {
+    const usedSqM = neighbours.reduce(
+      (total, neighbour) =>
+        total + footprintOf(neighbour, defaultFootprintSqM),
+      0
+    );
+    const requiredSqM = footprintOf(plant, defaultFootprintSqM);
+    const utilisation =
+      space.areaSqM > 0 ? (usedSqM + requiredSqM) / space.areaSqM : Infinity;
+
+    check.capacity = {
+      spaceId: String(space._id),
+      areaSqM: space.areaSqM,
+      usedSqM: round(usedSqM),
+      requiredSqM: round(requiredSqM),
+      utilisation: round(utilisation),
+    };
+
+    if (utilisation > 1) {
+      check.warnings.push({
+        code: "over-capacity",
+        message: `"${space.name}" has about ${round(
+          Math.max(space.areaSqM - usedSqM, 0)
+        )} m² free but ${plant.plantName} needs about ${round(requiredSqM)} m².`,
+      });
+    }
+  }
+
+  const entry = findCompanionPlant(plant.plantName);
+  if (entry) {
+    neighbours.forEach((neighbour) => {
+      const other = findCompanionPlant(neighbour.plantName);
+      const pair = other && relationBetween(entry.name, other.name);
+      if (!pair) {
+        return;
+      }
+
+      const plantId = String(neighbour._id);
+      if (pair.relation === "antagonist") {
+        check.warnings.push({
+          code: "antagonist",
+          message: `${plant.plantName} does not grow well next to ${neighbour.plantName}. ${pair.reason}`,
+          plantId,
+          plantName: neighbour.plantName,
+        });
+      } else {
+        check.companions.push({
+          plantId,
+          plantName: neighbour.plantName,
+          reason: pair.reason,
+        });
+      }
+    });
+  }
+
+  return check;
+};
@@ -0,0 +1,214 @@
+import places from "../data/places.json";
+
+// Offline geocoding and climate lookup against the bundled place dataset in
+// src/data/places.json. Zones are USDA hardiness zones; frost dates are
+// typical "MM-DD" dates and null where frost is rare.
+
+interface Place {
+  city: string;
+  aliases: string[];
+  country: string;
+  countryCode: string;
+  region: string;
+  lat: number;
+  lon: number;
+  hardinessZone: string;
+  lastFrost: string | null;
+  firstFrost: string | null;
+}
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export interface ClimateInfo {
+  hardinessZone: string;
+  lastFrost: string | null;
+  firstFrost: string | null;
+  frostFree: boolean;
+  // Dataset place the climate was taken from and how far away it is
+  referencePlace: string;
+  distanceKm: number;
+}
+
+export interface LocationDetails {
+  coordinates: Coordinates;
+  city?: string;
+  region?: string;
+  country?: string;
+  countryCode?: string;
+  climate?: ClimateInfo;
+}
+
+// Beyond this distance from any known place the climate is left unknown
+const MAX_CLIMATE_DISTANCE_KM = 400;
+const EARTH_RADIUS_KM = 6371;
+
+const PLACES = places as Place[];
+
+const normalise = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const namesOf = (place: Place): string[] =>
+  [place.city, ...place.aliases].map(normalise);
+
+// Everyday names for countries, by country code
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  GB: ["uk", "britain", "great britain"],
+  US: ["usa", "america", "united states of america"],
+  AE: ["uae"],
+  KR: ["korea"],
+  NL: ["holland"],
+};
+
+// Country and region names a place can be qualified with
+const areasOf = (place: Place): string[] =>
+  [
+    place.country,
+    place.countryCode,
+    place.region,
+    ...(COUNTRY_ALIASES[place.countryCode] || []),
+  ].map(normalise);
+
+// Every country and region in the dataset, to tell a qualifier that rules a
+// place out from one we know nothing about, such as a district or postcode
+const KNOWN_AREAS = new Set(PLACES.flatMap(areasOf));
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const distanceKm = (a: Coordinates, b: Coordinates): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+const nearestPlace = (
+  coordinates: Coordinates
+): { place: Place; distance: number } => {
+  let best = { place: PLACES[0], distance: Infinity };
+  PLACES.forEach((place) => {
+    const distance = distanceKm(coordinates, place);
+    if (distance < best.distance) {
+      best = { place, distance };
+    }
+  });
+  return best;
+};
+
+export const isValidCoordinates = (value: unknown): value is Coordinates => {
+  const candidate = value as Coordinates;
+  return (
+    typeof candidate?.lat === "number" &&
+    typeof candidate?.lon === "number" &&
+    Math.abs(candidate.lat) <= 90 &&
+    Math.abs(candidate.lon) <= 180
+  );
+};
+
+// Climate for any point, taken from the nearest dataset place
+export const climateFor = (coordinates: Coordinates): ClimateInfo | undefined => {
+  const { place, distance } = nearestPlace(coordinates);
+  if (distance > MAX_CLIMATE_DISTANCE_KM) {
+    return undefined;
+  }
+  return {
+    hardinessZone: place.hardinessZone,
+    lastFrost: place.lastFrost,
+    firstFrost: place.firstFrost,
+    frostFree: place.lastFrost === null && place.firstFrost === null,
+    referencePlace: `${place.city}, ${place.country}`,
+    distanceKm: Math.round(distance),
+  };
+};
+
+const detailsFromPlace = (place: Place): LocationDetails => ({
+  coordinates: { lat: place.lat, lon: place.lon },
+  city: place.city,
+  region: place.region,
+  country: place.country,
+  countryCode: place.countryCode,
+  climate: climateFor(place),
+});
+
+// Resolve free text such as "Pune", "London, UK" or "Bangalore, India".
+// Later comma-separated parts are used to choose between places with the
+// same name. Returns null when nothing in the dataset matches, or when the
+// text names a country or region none of the matching places are in, as
+// with "Paris, Texas".
+export const geocode = (text: string): LocationDetails | null => {
+  const parts = text.split(",").map(normalise).filter(Boolean);
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const qualifiers = parts.slice(1);
+  const score = (place: Place): number => {
+    const matches = [...areasOf(place), ...namesOf(place)];
+    return qualifiers.filter((qualifier) => matches.includes(qualifier))
+      .length;
+  };
+
+  let candidates = PLACES.filter((place) => namesOf(place).includes(parts[0]));
+
+  // Fall back to a place name appearing anywhere in the text
+  if (candidates.length === 0) {
+    const padded = ` ${parts.join(" ")} `;
+    candidates = PLACES.filter((place) =>
+      namesOf(place).some((name) => padded.includes(` ${name} `))
+    );
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const best = candidates.reduce((a, b) => (score(b) > score(a) ? b : a));
+  if (
+    score(best) === 0 &&
+    qualifiers.some((qualifier) => KNOWN_AREAS.has(qualifier))
+  ) {
+    return null;
+  }
+  return detailsFromPlace(best);
+};
+
+// Describe coordinates supplied by the client using the nearest known place
+export const reverseGeocode = (coordinates: Coordinates): LocationDetails => {
+  const { place, distance } = nearestPlace(coordinates);
+  const local = distance <= MAX_CLIMATE_DISTANCE_KM;
+  return {
+    coordinates,
+    ...(local && {
+      city: place.city,
+      region: place.region,
+      country: place.country,
+      countryCode: place.countryCode,
+    }),
+    climate: climateFor(coordinates),
+  };
+};
+
+// Extra prompt lines describing the climate, empty when it is unknown
+export const describeClimate = (details?: LocationDetails | null): string => {
+  const climate = details?.climate;
+  if (!climate) {
+    return "";
+  }
+  const frost = climate.frostFree
+    ? "frost is rare or absent"
+    : `last spring frost around ${climate.lastFrost} and first autumn frost around ${climate.firstFrost} (MM-DD)`;
+  return `
+    - USDA hardiness zone: ${climate.hardinessZone}
+    - Typical frost dates: ${frost}`;
+};
@@ -0,0 +1,41 @@
+export type SupportedImageType =
+  | "image/png"
+  | "image/jpeg"
+  | "image/webp"
+  | "image/heic"
+  | "image/heif";
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0): boolean =>
+  buffer.length >= offset + bytes.length &&
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number): string =>
+  buffer.length >= end ? buffer.toString("latin1", start, end) : "";
+
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis"];
+const HEIF_BRANDS = ["mif1", "msf1"];
+
+// Identify an image by its magic bytes rather than trusting the client's
+// declared type. Returns null for anything we do not accept.
+export const detectImageType = (buffer: Buffer): SupportedImageType | null => {
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg";
+  }
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  // ISO base media file: a "ftyp" box whose major brand names the format
+  if (ascii(buffer, 4, 8) === "ftyp") {
+    const brand = ascii(buffer, 8, 12);
+    if (HEIC_BRANDS.includes(brand)) {
+      return "image/heic";
+    }
+    if (HEIF_BRANDS.includes(brand)) {
+      return "image/heif";
+    }
+  }
+  return null;
+};
@@ -0,0 +1,190 @@
+import { Types } from "mongoose";
+import { JobConfig } from "../config/jobs";
+import Job, { IJob, IJobError, JobType } from "../models/Job";
+
+// A small MongoDB-backed job queue. Workers claim queued jobs atomically,
+// failed attempts are retried with exponential backoff, and jobs whose
+// worker went away mid-run are put back in the queue.
+
+export interface JobContext {
+  // Record how far the job has got; also tells the queue the worker is alive
+  progress(stage: string, percent: number): Promise<void>;
+}
+
+export type JobHandler = (
+  job: IJob,
+  context: JobContext
+) => Promise<Record<string, unknown>>;
+
+// Errors a handler throws to fail a job with extra detail for the client.
+// Set `retryable` to false when another attempt cannot succeed.
+export class JobError extends Error {
+  constructor(
+    message: string,
+    public readonly details?: unknown,
+    public readonly retryable = true
+  ) {
+    super(message);
+    this.name = "JobError";
+  }
+}
+
+export const enqueueJob = (
+  type: JobType,
+  user: Types.ObjectId,
+  payload: Record<string, unknown>,
+  maxAttempts: number
+): Promise<IJob> =>
+  Job.create({
+    user,
+    type,
+    payload,
+    maxAttempts,
+    runAt: new Date(),
+  });
+
+// Atomically take the next due job, oldest first
+export const claimNextJob = (
+  workerId: string,
+  now: Date = new Date()
+): Promise<IJob | null> =>
+  Job.findOneAndUpdate(
+    { status: "queued", runAt: { $lte: now } },
+    {
+      $set: { status: "running", lockedAt: now, lockedBy: workerId },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, new: true }
+  );
+
+export const retryDelayMs = (
+  attempts: number,
+  config: Pick<JobConfig, "backoffSeconds" | "maxBackoffSeconds">
+): number =>
+  Math.min(
+    config.backoffSeconds * 2 ** Math.max(attempts - 1, 0),
+    config.maxBackoffSeconds
+  ) * 1000;
+
+const toJobError = (error: unknown): IJobError => ({
+  message: error instanceof Error ? error.message : "Unknown error",
+  details: error instanceof JobError ? error.details : undefined,
+});
+
+// Run a claimed job and record the outcome. Only the worker holding the
+// lock may write, so a job recovered from under a slow worker is not
+// overwritten when that worker finally finishes.
+export const runJob = async (
+  job: IJob,
+  handler: JobHandler,
+  config: Pick<JobConfig, "backoffSeconds" | "maxBackoffSeconds">
+): Promise<IJob | null> => {
+  const owned = { _id: job._id, status: "running", lockedBy: job.lockedBy };
+
+  const context: JobContext = {
+    async progress(stage, percent) {
+      await Job.updateOne(owned, {
+        $set: { progress: { stage, percent }, lockedAt: new Date() },
+      });
+    },
+  };
+
+  try {
+    const result = await handler(job, context);
+    return Job.findOneAndUpdate(
+      owned,
+      {
+        $set: {
+          status: "succeeded",
+          result,
+          progress: { stage: "done", percent: 100 },
+          finishedAt: new Date(),
+        },
+        $unset: { error: 1, lockedAt: 1, lockedBy: 1 },
+      },
+      { new: true }
+    );
+  } catch (error) {
+    console.error(
+      `Job ${job._id} (${job.type}) attempt ${job.attempts} failed:`,
+      error
+    );
+
+    const retryable = !(error instanceof JobError) || error.retryable;
+    if (retryable && job.attempts < job.maxAttempts) {
+      return Job.findOneAndUpdate(
+        owned,
+        {
+          $set: {
+            status: "queued",
+            error: toJobError(error),
+            runAt: new Date(Date.now() + retryDelayMs(job.attempts, config)),
+            progress: { stage: "waiting to retry", percent: 0 },
+          },
+          $unset: { lockedAt: 1, lockedBy: 1 },
+        },
+        { new: true }
+      );
+    }
+
+    return Job.findOneAndUpdate(
+      owned,
+      {
+        $set: {
+          status: "failed",
+          error: toJobError(error),
+          finishedAt: new Date(),
+        },
+        $unset: { lockedAt: 1, lockedBy: 1 },
+      },
+      { new: true }
+    );
+  }
+};
+
+// Put running jobs whose worker has not been heard from in `timeoutMinutes`
+// back in the queue, or fail them if they are out of attempts. Returns how
+// many jobs were recovered.
+export const recoverStuckJobs = async (
+  timeoutMinutes: number,
+  now: Date = new Date()
+): Promise<number> => {
+  const staleBefore = new Date(now.getTime() - timeoutMinutes * 60 * 1000);
+  const stale = { status: "running", lockedAt: { $lt: staleBefore } };
+  const lostError = { message: "Job was interrupted before it finished" };
+
+  const exhausted = await Job.updateMany(
+    { ...stale, $expr: { $gte: ["$attempts", "$maxAttempts"] } },
+    {
+      $set: { status: "failed", error: lostError, finishedAt: now },
+      $unset: { lockedAt: 1, lockedBy: 1 },
+    }
+  );
+  const requeued = await Job.updateMany(stale, {
+    $set: {
+      status: "queued",
+      error: lostError,
+      runAt: now,
+      progress: { stage: "queued", percent: 0 },
+    },
+    $unset: { lockedAt: 1, lockedBy: 1 },
+  });
+
+  return exhausted.modifiedCount + requeued.modifiedCount;
+};
+
+export const serializeJob = (job: IJob) => ({
+  id: String(job._id),
+  type: job.type,
+  status: job.status,
+  progress: job.progress,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  // When a queued retry becomes due
+  nextAttemptAt: job.status === "queued" ? job.runAt : null,
+  result: job.result ?? null,
+  error: job.error ?? null,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  finishedAt: job.finishedAt ?? null,
+});
@@ -0,0 +1,51 @@
+import admin from "../../config/firebase";
+import { NotificationMessage, NotificationSender, SendResult } from "./types";
+
+const INVALID_TOKEN_CODES = [
+  "messaging/invalid-registration-token",
+  "messaging/registration-token-not-registered",
+];
+
+// Most tokens FCM accepts in one multicast request
+const MAX_MULTICAST_TOKENS = 500;
+
+const sendBatch = async (
+  tokens: string[],
+  message: NotificationMessage
+): Promise<SendResult> => {
+  const response = await admin.messaging().sendEachForMulticast({
+    tokens,
+    notification: { title: message.title, body: message.body },
+    data: message.data,
+  });
+
+  const invalidTokens = response.responses
+    .map((result, index) =>
+      !result.success &&
+      INVALID_TOKEN_CODES.includes(result.error?.code || "")
+        ? tokens[index]
+        : null
+    )
+    .filter((token): token is string => token !== null);
+
+  return { successCount: response.successCount, invalidTokens };
+};
+
+export const createFcmSender = (): NotificationSender => ({
+  name: "fcm",
+  async send(
+    tokens: string[],
+    message: NotificationMessage
+  ): Promise<SendResult> {
+    const result: SendResult = { successCount: 0, invalidTokens: [] };
+    for (let start = 0; start < tokens.length; start += MAX_MULTICAST_TOKENS) {
+      const batch = await sendBatch(
+        tokens.slice(start, start + MAX_MULTICAST_TOKENS),
+        message
+      );
+      result.successCount += batch.successCount;
+      result.invalidTokens.push(...batch.invalidTokens);
+    }
+    return result;
+  },
+});
@@ -0,0 +1,25 @@
+import { getNotificationConfig } from "../../config/notifications";
+import { createFcmSender } from "./fcmSender";
+import { createMemorySender } from "./memorySender";
+import { NotificationSender } from "./types";
+
+export * from "./types";
+export { createMemorySender } from "./memorySender";
+
+let sender: NotificationSender | null = null;
+
+export const getNotificationSender = (): NotificationSender => {
+  if (!sender) {
+    sender =
+      getNotificationConfig().transport === "memory"
+        ? createMemorySender()
+        : createFcmSender();
+    console.log(`Using notification transport "${sender.name}"`);
+  }
+  return sender;
+};
+
+// Swap the active transport, e.g. for an in-process test harness
+export const setNotificationSender = (next: NotificationSender | null): void => {
+  sender = next;
+};
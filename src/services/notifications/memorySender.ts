@@ -0,0 +1,32 @@
+import { NotificationMessage, NotificationSender, SendResult } from "./types";
+
+export interface SentNotification extends NotificationMessage {
+  tokens: string[];
+  sentAt: Date;
+}
+
+export interface MemorySender extends NotificationSender {
+  readonly sent: SentNotification[];
+  clear(): void;
+}
+
+// Records messages instead of delivering them; every token counts as
+// delivered.
+export const createMemorySender = (): MemorySender => {
+  const sent: SentNotification[] = [];
+
+  return {
+    name: "memory",
+    sent,
+    async send(
+      tokens: string[],
+      message: NotificationMessage
+    ): Promise<SendResult> {
+      sent.push({ ...message, tokens: [...tokens], sentAt: new Date() });
+      return { successCount: tokens.length, invalidTokens: [] };
+    },
+    clear() {
+      sent.length = 0;
+    },
+  };
+};
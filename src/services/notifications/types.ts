@@ -0,0 +1,17 @@
+export interface NotificationMessage {
+  title: string;
+  body: string;
+  // Extra key/value payload delivered to the app, e.g. the plant id
+  data?: Record<string, string>;
+}
+
+export interface SendResult {
+  successCount: number;
+  // Tokens the transport reported as no longer registered
+  invalidTokens: string[];
+}
+
+export interface NotificationSender {
+  readonly name: string;
+  send(tokens: string[], message: NotificationMessage): Promise<SendResult>;
+}
@@ -0,0 +1,78 @@
+import { createHash } from "crypto";
+import { Types } from "mongoose";
+import { UploadedImage } from "../middleware/upload";
+import Photo, { IPhoto, PhotoKind } from "../models/Photo";
+import { IPlant } from "../models/Plant";
+import { getStorage, signedUrlFor } from "./storage";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "image/heif": "heif",
+};
+
+// Write an image to storage and record it as a photo of the plant
+export const storePhoto = async (
+  userId: Types.ObjectId,
+  plantId: Types.ObjectId,
+  kind: PhotoKind,
+  image: UploadedImage
+): Promise<IPhoto> => {
+  const photoId = new Types.ObjectId();
+  const key = `users/${userId}/plants/${plantId}/${kind}/${photoId}.${
+    EXTENSIONS[image.mimeType]
+  }`;
+
+  await getStorage().put(key, image.buffer, image.mimeType);
+
+  return Photo.create({
+    _id: photoId,
+    user: userId,
+    plant: plantId,
+    kind,
+    key,
+    mimeType: image.mimeType,
+    size: image.buffer.length,
+    sha256: createHash("sha256").update(image.buffer).digest("hex"),
+  });
+};
+
+// Add a photo to the plant's gallery; the first photo becomes the cover.
+// The caller saves the plant.
+export const addToGallery = (plant: IPlant, photo: IPhoto): void => {
+  plant.gallery.push(photo._id as Types.ObjectId);
+  if (!plant.coverPhoto) {
+    plant.coverPhoto = photo._id as Types.ObjectId;
+  }
+};
+
+// Remove a photo from storage and from the plant's gallery and cover. The
+// caller saves the plant.
+export const removeFromPlant = async (
+  plant: IPlant,
+  photo: IPhoto
+): Promise<void> => {
+  plant.gallery = plant.gallery.filter((id) => !id.equals(photo._id as Types.ObjectId));
+  if (plant.coverPhoto?.equals(photo._id as Types.ObjectId)) {
+    plant.coverPhoto = plant.gallery[plant.gallery.length - 1];
+  }
+  await deletePhoto(photo);
+};
+
+export const deletePhoto = async (photo: IPhoto): Promise<void> => {
+  await getStorage().delete(photo.key);
+  await photo.deleteOne();
+};
+
+// Photo as returned by the API, with a short-lived signed URL
+export const serializePhoto = async (photo: IPhoto) => ({
+  id: photo._id,
+  plant: photo.plant,
+  kind: photo.kind,
+  mimeType: photo.mimeType,
+  size: photo.size,
+  createdAt: photo.createdAt,
+  url: await signedUrlFor(photo.key),
+});
@@ -0,0 +1,258 @@
+import { Types } from "mongoose";
+import { getRecommendationConfig } from "../config/recommendations";
+import { IGrowingSpace } from "../models/GrowingSpace";
+import Plant, { IPlant } from "../models/Plant";
+import RecommendationCache, {
+  IRecommendationConditions,
+} from "../models/RecommendationCache";
+import User, { IUser } from "../models/User";
+import { AIGenerationInfo } from "./ai";
+import { normaliseName } from "./catalog";
+import { LocationDetails } from "./geo";
+import { spaceSurvey } from "./spaces";
+import { missingSurveyFields, SurveyProfile, withSurveyDefaults } from "./users";
+
+// Recommendations are generated once per set of normalised growing
+// conditions and shared as template plants until the cache entry expires.
+// Users only get their own copy of a template when they activate it.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CachedRecommendations {
+  plants: IPlant[];
+  expiresAt: Date;
+  // False when this request (or one it was merged with) ran the model
+  cached: boolean;
+}
+
+export const sunlightBucket = (hours: number): string =>
+  hours < 3 ? "low" : hours < 6 ? "partial" : hours < 8 ? "full" : "high";
+
+export const recommendationConditions = (
+  survey: SurveyProfile,
+  locationDetails?: LocationDetails | null,
+  space?: IGrowingSpace | null
+): IRecommendationConditions => ({
+  location: locationDetails?.city
+    ? normaliseName(`${locationDetails.city} ${locationDetails.countryCode || ""}`)
+    : normaliseName(String(survey.location)),
+  hardinessZone: locationDetails?.climate?.hardinessZone || "unknown",
+  sunlightBucket: sunlightBucket(Number(survey.sunlightHours)),
+  space: space
+    ? `${space.spaceType} ${space.indoor ? "indoor" : "outdoor"} ${space.containerType}`
+    : normaliseName(String(survey.availableSpace)),
+});
+
+// Entries are also keyed on the model and prompt revision, so changing
+// either starts a fresh cache
+export const recommendationCacheKey = (
+  conditions: IRecommendationConditions,
+  generation: AIGenerationInfo
+): string =>
+  [
+    generation.model,
+    generation.promptVersion,
+    conditions.location,
+    conditions.hardinessZone,
+    conditions.sunlightBucket,
+    conditions.space,
+  ].join("|");
+
+// Generations running in this process, by cache key. A null result means
+// the run cached nothing (e.g. a cancelled stream), so whoever was waiting
+// on it has to generate for themselves.
+const inFlight = new Map<string, Promise<CachedRecommendations | null>>();
+
+// The generation already running for `key` in this process, if any
+export const pendingRecommendations = (
+  key: string
+): Promise<CachedRecommendations | null> | undefined => inFlight.get(key);
+
+// Mark `key` as being generated outside getOrGenerateRecommendations, e.g.
+// by a stream, so requests for the same key wait for it instead of calling
+// the model again. Returns the function that settles the generation.
+export const registerGeneration = (
+  key: string
+): ((result: CachedRecommendations | null) => void) => {
+  let settle!: (result: CachedRecommendations | null) => void;
+  const generation: Promise<CachedRecommendations | null> = new Promise<
+    CachedRecommendations | null
+  >((resolve) => {
+    settle = resolve;
+  }).finally(() => {
+    if (inFlight.get(key) === generation) {
+      inFlight.delete(key);
+    }
+  });
+
+  inFlight.set(key, generation);
+  return settle;
+};
+
+// Live cache entry for `key` with its template plants in order, or null
+export const findCachedRecommendations = async (
+  key: string,
+  now: Date = new Date()
+): Promise<CachedRecommendations | null> => {
+  const entry = await RecommendationCache.findOne({
+    key,
+    expiresAt: { $gt: now },
+  });
+  if (!entry) {
+    return null;
+  }
+
+  // Treat an entry whose templates have gone missing as a miss
+  const plants = await Plant.find({ _id: { $in: entry.plants } });
+  if (plants.length !== entry.plants.length) {
+    return null;
+  }
+
+  const order = entry.plants.map(String);
+  plants.sort(
+    (a, b) => order.indexOf(String(a._id)) - order.indexOf(String(b._id))
+  );
+  return { plants, expiresAt: entry.expiresAt, cached: true };
+};
+
+// When a new cache entry expires, and when its template plants do
+export const cacheExpiry = (
+  now: Date = new Date()
+): { expiresAt: Date; templateExpiresAt: Date } => {
+  const config = getRecommendationConfig();
+  const expiresAt = new Date(now.getTime() + config.cacheTtlHours * HOUR_MS);
+  return {
+    expiresAt,
+    templateExpiresAt: new Date(
+      expiresAt.getTime() + config.templateGraceHours * HOUR_MS
+    ),
+  };
+};
+
+export const cacheRecommendations = async (
+  key: string,
+  conditions: IRecommendationConditions,
+  plants: IPlant[],
+  expiresAt: Date
+): Promise<void> => {
+  await RecommendationCache.findOneAndUpdate(
+    { key },
+    {
+      $set: {
+        conditions,
+        plants: plants.map((plant) => plant._id),
+        expiresAt,
+      },
+    },
+    { upsert: true }
+  );
+};
+
+// Recommendations for `key`, from the cache when possible. `generate` is
+// given the expiry to stamp on the template plants it creates. Concurrent
+// requests for the same key in this process, including a stream, share one
+// lookup and one `generate` call.
+export const getOrGenerateRecommendations = (
+  key: string,
+  conditions: IRecommendationConditions,
+  generate: (templateExpiresAt: Date) => Promise<IPlant[]>,
+  now: Date = new Date()
+): Promise<CachedRecommendations> => {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending.then(
+      (result) =>
+        result ?? getOrGenerateRecommendations(key, conditions, generate, now)
+    );
+  }
+
+  const lookup = (async (): Promise<CachedRecommendations> => {
+    const cached = await findCachedRecommendations(key, now);
+    if (cached) {
+      return cached;
+    }
+
+    const { expiresAt, templateExpiresAt } = cacheExpiry(now);
+    const plants = await generate(templateExpiresAt);
+    await cacheRecommendations(key, conditions, plants, expiresAt);
+
+    return { plants, expiresAt, cached: false };
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, lookup);
+  return lookup;
+};
+
+// The growing context of a user's copy: their own survey (or the space the
+// copy goes into) rather than the conditions the template was shared under.
+// Left unset while the user's profile is incomplete.
+const copyGrowingContext = (
+  template: IPlant,
+  user: IUser,
+  space?: IGrowingSpace | null
+): IPlant["growingContext"] => {
+  const survey = withSurveyDefaults(
+    space ? { ...spaceSurvey(space) } : undefined,
+    user
+  );
+  if (missingSurveyFields(survey).length > 0) {
+    return undefined;
+  }
+
+  const generation = template.templateConditions ?? template.growingContext;
+  return {
+    location: String(survey.location).trim(),
+    sunlightHours: Number(survey.sunlightHours),
+    availableSpace: String(survey.availableSpace).trim(),
+    hardinessZone: user.locationDetails?.climate?.hardinessZone,
+    model: generation?.model,
+    promptVersion: generation?.promptVersion,
+  };
+};
+
+// The user's copy of a template plant, if they have made one
+export const findTemplateCopy = (
+  template: IPlant,
+  user: IUser
+): Promise<IPlant | null> =>
+  Plant.findOne({
+    _id: { $in: user.plants },
+    sourceTemplate: template._id,
+  });
+
+// The user's own copy of a template plant, created on first use. Copies
+// keep the template's guide but none of its sharing or expiry.
+export const copyTemplateForUser = async (
+  template: IPlant,
+  user: IUser,
+  space?: IGrowingSpace | null
+): Promise<IPlant> => {
+  const existing = await findTemplateCopy(template, user);
+  if (existing) {
+    return existing;
+  }
+
+  const {
+    _id,
+    __v,
+    createdAt,
+    updatedAt,
+    isTemplate,
+    templateExpiresAt,
+    templateConditions,
+    growingContext,
+    ...fields
+  } = template.toObject();
+
+  const copy = await Plant.create({
+    ...fields,
+    growingContext: copyGrowingContext(template, user, space),
+    isActive: false,
+    sourceTemplate: template._id,
+  });
+
+  (user.plants as Types.ObjectId[]).push(copy._id as Types.ObjectId);
+  await User.updateOne({ _id: user._id }, { $push: { plants: copy._id } });
+
+  return copy;
+};
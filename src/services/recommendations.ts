@@ -0,0 +1,380 @@
+import { z } from "zod";
+import { IGrowingSpace } from "../models/GrowingSpace";
+import { IJob } from "../models/Job";
+import Plant, { IPlant, ITemplateConditions } from "../models/Plant";
+import { IRecommendationConditions } from "../models/RecommendationCache";
+import User, { IUser } from "../models/User";
+import {
+  AIFieldError,
+  AIRecommendation,
+  AIResponseValidationError,
+  generateStructured,
+  generateStructuredStream,
+  getGenerationInfo,
+  recommendationListSchema,
+  recommendationSchema,
+} from "./ai";
+import { matchSpecies } from "./catalog";
+import { describeClimate, LocationDetails } from "./geo";
+import { JobContext, JobError } from "./jobs";
+import {
+  CachedRecommendations,
+  cacheExpiry,
+  cacheRecommendations,
+  findCachedRecommendations,
+  getOrGenerateRecommendations,
+  pendingRecommendations,
+  recommendationCacheKey,
+  recommendationConditions,
+  registerGeneration,
+} from "./recommendationCache";
+import { describeSpace, findOwnedSpace } from "./spaces";
+import { SurveyProfile } from "./users";
+
+// What a recommendations job needs to run: the resolved survey and the
+// targeted growing space, if any. Payloads are checked again when the job
+// runs, since stored jobs may predate the current shape.
+export const recommendationJobPayloadSchema = z.object({
+  location: z.string().min(1),
+  sunlightHours: z.number().min(0).max(24),
+  availableSpace: z.string().min(1),
+  spaceId: z.string().optional(),
+});
+
+export type RecommendationJobPayload = z.infer<
+  typeof recommendationJobPayloadSchema
+>;
+
+export type RecommendationProgress = (
+  stage: string,
+  percent: number
+) => Promise<void>;
+
+export const buildRecommendationPrompt = (
+  survey: SurveyProfile,
+  locationDetails?: LocationDetails | null,
+  space?: IGrowingSpace | null
+): string => {
+  const { location, sunlightHours, availableSpace } = survey;
+
+  return `Given the following conditions:
+    - Location: ${location}${describeClimate(locationDetails)}
+    - Hours of direct sunlight: ${sunlightHours} hours
+    - Available space: ${availableSpace}${describeSpace(space)}
+    
+    Provide a list of 6-8 plants that would grow well in these conditions. For each plant, include:
+    1. A brief description
+    2. Success rate in these specific conditions
+    3. A detailed step-by-step journey of growing this plant, including:
+       - Preparation steps (soil, tools, etc.)
+       - Planting process
+       - Daily/weekly care routine
+       - Growth milestones
+       - Harvesting instructions (if applicable)
+    4. Growing difficulty level
+    5. A publicly accessible image URL of the plant (must be a real, working URL from reliable sources like Unsplash, Pexels, or other reputable stock photo sites)
+    
+    IMPORTANT: Return ONLY a valid JSON array of objects with these exact properties:
+    [
+      {
+        "name": "Plant name",
+        "description": "Brief description",
+        "successRate": "success rate in percentage",
+        "imageUrl": "https://example.com/plant-image.jpg",
+        "steps": [
+          {
+            "title": "Step title",
+            "description": "Detailed description of what needs to be done",
+            "estimatedTime": "Time estimate (e.g., '2 weeks', '1 month')",
+            "isCompleted": false
+          }
+        ],
+        "difficultyLevel": "Difficulty level"
+      }
+    ]`;
+};
+
+// Save a generated recommendation as a shared template plant
+export const saveTemplatePlant = async (
+  rec: AIRecommendation,
+  templateConditions: ITemplateConditions,
+  templateExpiresAt: Date
+): Promise<IPlant> => {
+  // Process steps
+  const processedSteps = rec.steps.map((step, index) => ({
+    id: index + 1,
+    title: step.title,
+    description: step.description,
+    estimatedTime: step.estimatedTime,
+    isCompleted: false,
+  }));
+
+  // Create and save the plant
+  const plant = new Plant({
+    plantName: rec.name,
+    description: rec.description,
+    successRate: rec.successRate,
+    imageUrl: "https://picsum.photos/500/500",
+    steps: processedSteps,
+    difficultyLevel: rec.difficultyLevel,
+    isValid: true,
+    species: (await matchSpecies(rec.name))?._id,
+    isTemplate: true,
+    templateExpiresAt,
+    templateConditions,
+  });
+
+  return plant.save();
+};
+
+export const saveTemplatePlants = (
+  recommendations: AIRecommendation[],
+  templateConditions: ITemplateConditions,
+  templateExpiresAt: Date
+): Promise<IPlant[]> =>
+  Promise.all(
+    recommendations.map((rec) =>
+      saveTemplatePlant(rec, templateConditions, templateExpiresAt)
+    )
+  );
+
+// Templates are shared by everyone asking under the same conditions, so
+// they only record the normalised ones; each user's copy gets its own
+// growing context on activation
+const templateConditionsFor = (
+  conditions: IRecommendationConditions
+): ITemplateConditions => ({
+  ...conditions,
+  ...getGenerationInfo("recommendations"),
+});
+
+// Recommendations for a user's conditions. Users asking under the same
+// conditions share one set of template plants; each only gets a copy of
+// the ones they activate.
+export const generateRecommendations = async (
+  user: IUser,
+  survey: SurveyProfile,
+  space: IGrowingSpace | null,
+  progress: RecommendationProgress = async () => undefined
+): Promise<CachedRecommendations> => {
+  const conditions = recommendationConditions(
+    survey,
+    user.locationDetails,
+    space
+  );
+  const key = recommendationCacheKey(
+    conditions,
+    getGenerationInfo("recommendations")
+  );
+
+  return getOrGenerateRecommendations(
+    key,
+    conditions,
+    async (templateExpiresAt) => {
+      await progress("generating", 10);
+      const recommendations = await generateStructured(
+        {
+          task: "recommendations",
+          prompt: buildRecommendationPrompt(survey, user.locationDetails, space),
+        },
+        recommendationListSchema,
+        "array"
+      );
+
+      await progress("saving", 80);
+      return saveTemplatePlants(
+        recommendations,
+        templateConditionsFor(conditions),
+        templateExpiresAt
+      );
+    }
+  );
+};
+
+export interface RecommendationStreamHandlers {
+  onPlant(plant: IPlant, index: number): void;
+  // An element the model produced that did not match the schema
+  onSkipped(index: number, fieldErrors: AIFieldError[]): void;
+  // Checked between plants; true stops generation early
+  isCancelled(): boolean;
+}
+
+export interface RecommendationStreamSummary {
+  count: number;
+  skipped: number;
+  cached: boolean;
+  // When the cache entry expires; null when nothing was cached
+  expiresAt: Date | null;
+  completed: boolean;
+}
+
+// Hand over recommendations that already exist, cached or generated by
+// another request, one plant at a time
+const replayRecommendations = (
+  result: CachedRecommendations,
+  handlers: RecommendationStreamHandlers
+): RecommendationStreamSummary => {
+  let count = 0;
+  for (const plant of result.plants) {
+    if (handlers.isCancelled()) {
+      break;
+    }
+    handlers.onPlant(plant, count++);
+  }
+  return {
+    count,
+    skipped: 0,
+    cached: result.cached,
+    expiresAt: result.expiresAt,
+    completed: count === result.plants.length,
+  };
+};
+
+// Like generateRecommendations, but hands over each plant as soon as it has
+// been parsed and saved. Invalid elements are reported and skipped rather
+// than repaired. Only a stream that ran to the end with at least one plant
+// is cached, so a cancelled request never leaves a partial entry behind.
+// Streams and queued requests for the same conditions share one generation.
+export const streamRecommendations = async (
+  user: IUser,
+  survey: SurveyProfile,
+  space: IGrowingSpace | null,
+  handlers: RecommendationStreamHandlers
+): Promise<RecommendationStreamSummary> => {
+  const conditions = recommendationConditions(
+    survey,
+    user.locationDetails,
+    space
+  );
+  const key = recommendationCacheKey(
+    conditions,
+    getGenerationInfo("recommendations")
+  );
+
+  const pending = pendingRecommendations(key);
+  if (pending) {
+    const shared = await pending;
+    // A generation that cached nothing leaves this stream to run its own
+    return shared
+      ? replayRecommendations(shared, handlers)
+      : streamRecommendations(user, survey, space, handlers);
+  }
+
+  const settle = registerGeneration(key);
+  try {
+    const cached = await findCachedRecommendations(key);
+    if (cached) {
+      settle(cached);
+      return replayRecommendations(cached, handlers);
+    }
+
+    const { expiresAt, templateExpiresAt } = cacheExpiry();
+    const templateConditions = templateConditionsFor(conditions);
+    const plants: IPlant[] = [];
+    let skipped = 0;
+    let completed = true;
+
+    for await (const element of generateStructuredStream(
+      {
+        task: "recommendations",
+        prompt: buildRecommendationPrompt(survey, user.locationDetails, space),
+      },
+      recommendationSchema
+    )) {
+      if (handlers.isCancelled()) {
+        completed = false;
+        break;
+      }
+
+      if (!element.value) {
+        skipped++;
+        handlers.onSkipped(element.index, element.fieldErrors || []);
+        continue;
+      }
+
+      const plant = await saveTemplatePlant(
+        element.value,
+        templateConditions,
+        templateExpiresAt
+      );
+      plants.push(plant);
+      handlers.onPlant(plant, plants.length - 1);
+    }
+
+    const cacheable = completed && plants.length > 0;
+    if (cacheable) {
+      await cacheRecommendations(key, conditions, plants, expiresAt);
+      settle({ plants, expiresAt, cached: false });
+    }
+
+    return {
+      count: plants.length,
+      skipped,
+      cached: false,
+      expiresAt: cacheable ? expiresAt : null,
+      completed,
+    };
+  } finally {
+    // No-op once settled above; otherwise waiting requests generate
+    // for themselves
+    settle(null);
+  }
+};
+
+// Job handler for queued recommendation requests
+export const runRecommendationJob = async (
+  job: IJob,
+  context: JobContext
+): Promise<Record<string, unknown>> => {
+  const parsed = recommendationJobPayloadSchema.safeParse(job.payload);
+  if (!parsed.success) {
+    throw new JobError(
+      "Invalid recommendations job payload",
+      {
+        invalidFields: parsed.error.issues.map((issue) => ({
+          field: issue.path.join(".") || "(root)",
+          message: issue.message,
+        })),
+      },
+      false
+    );
+  }
+  const payload = parsed.data;
+
+  const user = await User.findById(job.user);
+  if (!user) {
+    throw new JobError("User no longer exists", undefined, false);
+  }
+
+  const space = payload.spaceId
+    ? await findOwnedSpace(user, payload.spaceId)
+    : null;
+  if (payload.spaceId && !space) {
+    throw new JobError("Growing space no longer exists", undefined, false);
+  }
+
+  try {
+    await context.progress("checking cache", 5);
+    const result = await generateRecommendations(
+      user,
+      payload,
+      space,
+      context.progress
+    );
+
+    return {
+      plantIds: result.plants.map((plant) => String(plant._id)),
+      cached: result.cached,
+      expiresAt: result.expiresAt,
+      spaceId: space ? String(space._id) : null,
+    };
+  } catch (error) {
+    if (error instanceof AIResponseValidationError) {
+      throw new JobError(
+        "The AI response did not match the expected format.",
+        { attempts: error.attempts, invalidFields: error.fieldErrors }
+      );
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,217 @@
+import { Types } from "mongoose";
+import Diagnosis from "../models/Diagnosis";
+import NotificationLog, { NotificationType } from "../models/NotificationLog";
+import Plant, { IPlant } from "../models/Plant";
+import User, { INotificationPreferences, IUser } from "../models/User";
+import { NotificationSender } from "./notifications";
+import { buildCareSchedule, ScheduleTask } from "./schedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PendingReminder {
+  plantId: string;
+  type: NotificationType;
+  key: string;
+  title: string;
+  body: string;
+}
+
+export interface SweepResult {
+  usersChecked: number;
+  sent: number;
+  // Users whose reminders could not be sent this time
+  failed: number;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes since local midnight in the given IANA time zone
+const localMinutes = (now: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value || 0);
+  return value("hour") * 60 + value("minute");
+};
+
+// Quiet hours may wrap past midnight, e.g. 22:00 to 07:00
+export const isWithinQuietHours = (
+  preferences: INotificationPreferences | undefined,
+  now: Date
+): boolean => {
+  const quietHours = preferences?.quietHours;
+  if (!quietHours) {
+    return false;
+  }
+
+  const current = localMinutes(now, preferences.timezone || "UTC");
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+const dayKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const stepReminder = (
+  task: ScheduleTask,
+  type: "step-due" | "step-overdue"
+): PendingReminder => ({
+  plantId: task.plantId,
+  type,
+  key: `${type}:${task.plantId}:${task.stepId}:${dayKey(task.dueAt)}`,
+  title:
+    type === "step-overdue"
+      ? `${task.plantName}: care step overdue`
+      : `${task.plantName}: care step due`,
+  body: task.title,
+});
+
+// Work out which reminders a user should get right now. Muted and inactive
+// plants are left out.
+export const collectReminders = async (
+  user: IUser,
+  now: Date,
+  followUpDays: number
+): Promise<PendingReminder[]> => {
+  const muted = (user.notificationPreferences?.mutedPlants || []).map(String);
+  const plantIds = (user.plants as Types.ObjectId[]).filter(
+    (id) => !muted.includes(String(id))
+  );
+
+  const plants: IPlant[] = await Plant.find({
+    _id: { $in: plantIds },
+    isActive: true,
+  });
+
+  // Steps due within the next day count as upcoming
+  const schedule = buildCareSchedule(plants, now, 1);
+  const reminders: PendingReminder[] = [
+    ...schedule.overdue.map((task) => stepReminder(task, "step-overdue")),
+    ...[...schedule.dueToday, ...schedule.upcoming].map((task) =>
+      stepReminder(task, "step-due")
+    ),
+  ];
+
+  // Ask for a fresh diagnosis once treatment has had time to work
+  const followUpBefore = new Date(now.getTime() - followUpDays * DAY_MS);
+  for (const plant of plants) {
+    const latest = await Diagnosis.findOne({ plant: plant._id }).sort({
+      createdAt: -1,
+    });
+    if (latest && latest.needsTreatment && latest.createdAt <= followUpBefore) {
+      reminders.push({
+        plantId: String(plant._id),
+        type: "diagnosis-follow-up",
+        key: `diagnosis-follow-up:${latest._id}`,
+        title: `${plant.plantName}: time for a check-up`,
+        body: "Take a new photo to see how the treatment is working.",
+      });
+    }
+  }
+
+  return reminders;
+};
+
+// Send one user every reminder that is due and has not been sent before.
+// Returns how many were delivered.
+const remindUser = async (
+  sender: NotificationSender,
+  user: IUser,
+  now: Date,
+  followUpDays: number
+): Promise<number> => {
+  const reminders = await collectReminders(user, now, followUpDays);
+  const invalidTokens = new Set<string>();
+  let sent = 0;
+
+  for (const reminder of reminders) {
+    const alreadySent = await NotificationLog.exists({
+      user: user._id,
+      key: reminder.key,
+    });
+    if (alreadySent) {
+      continue;
+    }
+
+    const tokens = user.deviceTokens
+      .map((device) => device.token)
+      .filter((token) => !invalidTokens.has(token));
+    if (tokens.length === 0) {
+      break;
+    }
+
+    const result = await sender.send(tokens, {
+      title: reminder.title,
+      body: reminder.body,
+      data: { plantId: reminder.plantId, type: reminder.type },
+    });
+    result.invalidTokens.forEach((token) => invalidTokens.add(token));
+
+    // A reminder no device received is tried again by the next sweep
+    if (result.successCount === 0) {
+      continue;
+    }
+
+    await NotificationLog.create({
+      user: user._id,
+      plant: reminder.plantId,
+      type: reminder.type,
+      key: reminder.key,
+      title: reminder.title,
+      body: reminder.body,
+      deliveredTo: result.successCount,
+    });
+    sent++;
+  }
+
+  // Forget tokens the transport says are no longer registered
+  if (invalidTokens.size > 0) {
+    await User.updateOne(
+      { _id: user._id },
+      { $pull: { deviceTokens: { token: { $in: [...invalidTokens] } } } }
+    );
+  }
+
+  return sent;
+};
+
+// Send every user's due reminders. Users in their quiet hours are skipped
+// and picked up by a later sweep, as are users whose reminders failed, so
+// one failing user does not hold up everyone after them.
+export const runReminderSweep = async (
+  sender: NotificationSender,
+  followUpDays: number,
+  now: Date = new Date()
+): Promise<SweepResult> => {
+  const users = await User.find({ "deviceTokens.0": { $exists: true } });
+  const result: SweepResult = {
+    usersChecked: users.length,
+    sent: 0,
+    failed: 0,
+  };
+
+  for (const user of users) {
+    if (isWithinQuietHours(user.notificationPreferences, now)) {
+      continue;
+    }
+
+    try {
+      result.sent += await remindUser(sender, user, now, followUpDays);
+    } catch (error) {
+      console.error(`Reminders for user ${user._id} failed:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,228 @@
+import { IPlant, IPlantStep, IWeatherFlag, StepStatus } from "../models/Plant";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used when a step's estimatedTime cannot be understood
+export const DEFAULT_STEP_DAYS = 1;
+
+const UNIT_DAYS: Record<string, number> = {
+  hour: 1 / 24,
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  couple: 2,
+  two: 2,
+  three: 3,
+  few: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+const ADVERB_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  fortnightly: 14,
+  monthly: 30,
+};
+
+const QUANTITY = `(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join("|")})`;
+const DURATION_PATTERN = new RegExp(
+  `\\b${QUANTITY}(?:\\s*(?:-|–|to)\\s*${QUANTITY})?\\s*(?:of\\s+)?(hour|day|week|month|year)s?\\b`,
+  "i"
+);
+
+const toNumber = (value: string): number =>
+  NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+
+// Turn free-text estimates such as "2 weeks", "7-14 days", "a month" or
+// "weekly" into a number of days. Ranges resolve to their upper bound so a
+// step is never due before its estimate runs out. Returns null when no
+// duration can be found.
+export const parseDuration = (text: string): number | null => {
+  const match = text.match(DURATION_PATTERN);
+  if (match) {
+    const [, low, high, unit] = match;
+    const quantity = toNumber(high ?? low);
+    if (Number.isFinite(quantity) && quantity > 0) {
+      return quantity * UNIT_DAYS[unit.toLowerCase()];
+    }
+  }
+
+  const adverb = text.toLowerCase().match(/\b(daily|weekly|fortnightly|monthly)\b/);
+  return adverb ? ADVERB_DAYS[adverb[1]] : null;
+};
+
+export interface ScheduledStep {
+  stepId: number;
+  title: string;
+  status: StepStatus;
+  kind: IPlantStep["kind"];
+  durationDays: number;
+  // False when estimatedTime could not be parsed and the default was used
+  durationParsed: boolean;
+  startAt: Date;
+  dueAt: Date;
+}
+
+// When the schedule starts. Plants activated before activatedAt was
+// recorded count from their creation instead.
+const scheduleStart = (plant: IPlant): Date | undefined =>
+  plant.activatedAt ?? plant.createdAt;
+
+// Lay the plant's open steps out one after another, starting when the plant
+// was activated and re-anchoring on each completed step's completion time.
+// Skipped and completed steps are not scheduled.
+export const computeStepSchedule = (plant: IPlant): ScheduledStep[] => {
+  const start = scheduleStart(plant);
+  if (!start) {
+    return [];
+  }
+
+  let cursor = start.getTime();
+  const scheduled: ScheduledStep[] = [];
+
+  plant.steps.forEach((step) => {
+    if (step.status === "skipped") {
+      return;
+    }
+
+    const parsed = parseDuration(step.estimatedTime);
+    const durationDays = parsed ?? DEFAULT_STEP_DAYS;
+
+    if (step.status === "done") {
+      cursor = Math.max(
+        cursor,
+        step.completedAt
+          ? step.completedAt.getTime()
+          : cursor + durationDays * DAY_MS
+      );
+      return;
+    }
+
+    const dueAt = cursor + durationDays * DAY_MS;
+    scheduled.push({
+      stepId: step.id,
+      title: step.title,
+      status: step.status,
+      kind: step.kind,
+      durationDays,
+      durationParsed: parsed !== null,
+      startAt: new Date(cursor),
+      dueAt: new Date(dueAt),
+    });
+    cursor = dueAt;
+  });
+
+  return scheduled;
+};
+
+// Weather flags from the last forecast check that have not yet passed;
+// older ones are stale until the next check replaces them
+export const currentWeatherFlags = (
+  plant: IPlant,
+  now: Date = new Date()
+): IWeatherFlag[] => {
+  const today = now.toISOString().slice(0, 10);
+  return (plant.weatherFlags || []).filter((flag) => flag.date >= today);
+};
+
+export interface ScheduleTask extends ScheduledStep {
+  plantId: string;
+  plantName: string;
+  // Forecast-driven changes to this step, e.g. skip watering before rain
+  weatherFlags: IWeatherFlag[];
+}
+
+// Forecast-driven advice for a plant as a whole, e.g. frost protection
+export interface WeatherAlert extends IWeatherFlag {
+  plantId: string;
+  plantName: string;
+}
+
+export interface CareSchedule {
+  overdue: ScheduleTask[];
+  dueToday: ScheduleTask[];
+  upcoming: ScheduleTask[];
+  weatherAlerts: WeatherAlert[];
+}
+
+// Bucket the open steps of every plant relative to `now` (UTC days).
+// Upcoming tasks are limited to the next `horizonDays` days.
+export const buildCareSchedule = (
+  plants: IPlant[],
+  now: Date,
+  horizonDays: number
+): CareSchedule => {
+  const startOfToday = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate()
+  );
+  const endOfToday = startOfToday + DAY_MS;
+  const horizon = endOfToday + horizonDays * DAY_MS;
+
+  const schedule: CareSchedule = {
+    overdue: [],
+    dueToday: [],
+    upcoming: [],
+    weatherAlerts: [],
+  };
+
+  plants.forEach((plant) => {
+    const weatherFlags = currentWeatherFlags(plant, now);
+    weatherFlags
+      .filter((flag) => flag.stepId === undefined)
+      .forEach((flag) =>
+        schedule.weatherAlerts.push({
+          plantId: String(plant._id),
+          plantName: plant.plantName,
+          action: flag.action,
+          date: flag.date,
+          reason: flag.reason,
+        })
+      );
+
+    computeStepSchedule(plant).forEach((step) => {
+      const task: ScheduleTask = {
+        plantId: String(plant._id),
+        plantName: plant.plantName,
+        ...step,
+        weatherFlags: weatherFlags.filter(
+          (flag) => flag.stepId === step.stepId
+        ),
+      };
+      const due = step.dueAt.getTime();
+
+      if (due < startOfToday) {
+        schedule.overdue.push(task);
+      } else if (due < endOfToday) {
+        schedule.dueToday.push(task);
+      } else if (due < horizon) {
+        schedule.upcoming.push(task);
+      }
+    });
+  });
+
+  const byDueDate = (a: ScheduleTask, b: ScheduleTask) =>
+    a.dueAt.getTime() - b.dueAt.getTime();
+  schedule.overdue.sort(byDueDate);
+  schedule.dueToday.sort(byDueDate);
+  schedule.upcoming.sort(byDueDate);
+  schedule.weatherAlerts.sort((a, b) => a.date.localeCompare(b.date));
+
+  return schedule;
+};
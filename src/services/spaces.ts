@@ -0,0 +1,121 @@
+import { Types } from "mongoose";
+import GrowingSpace, {
+  CONTAINER_TYPES,
+  ContainerType,
+  IGrowingSpace,
+} from "../models/GrowingSpace";
+import { IUser, SPACE_TYPES, SpaceType } from "../models/User";
+import { SurveyFieldError, SurveyProfile } from "./users";
+
+export const SPACE_FIELDS = [
+  "name",
+  "spaceType",
+  "sunlightHours",
+  "areaSqM",
+  "indoor",
+  "containerType",
+] as const;
+
+export interface SpaceInput {
+  name: string;
+  spaceType: SpaceType;
+  sunlightHours: number;
+  areaSqM: number;
+  indoor: boolean;
+  containerType: ContainerType;
+}
+
+// Validate the space fields present in `input`. When `partial` is false every
+// field is required, as for a new space.
+export const validateSpace = (
+  input: Record<string, unknown>,
+  partial: boolean
+): SurveyFieldError[] => {
+  const errors: SurveyFieldError[] = [];
+
+  if (!partial) {
+    SPACE_FIELDS.filter((field) => input[field] === undefined).forEach(
+      (field) => errors.push({ field, message: "Is required" })
+    );
+  }
+
+  if (
+    input.name !== undefined &&
+    (typeof input.name !== "string" || !input.name.trim())
+  ) {
+    errors.push({ field: "name", message: "Must be a non-empty string" });
+  }
+
+  if (
+    input.spaceType !== undefined &&
+    !SPACE_TYPES.includes(input.spaceType as SpaceType)
+  ) {
+    errors.push({
+      field: "spaceType",
+      message: `Must be one of: ${SPACE_TYPES.join(", ")}`,
+    });
+  }
+
+  if (
+    input.sunlightHours !== undefined &&
+    (typeof input.sunlightHours !== "number" ||
+      !Number.isFinite(input.sunlightHours) ||
+      input.sunlightHours < 0 ||
+      input.sunlightHours > 24)
+  ) {
+    errors.push({
+      field: "sunlightHours",
+      message: "Must be a number between 0 and 24",
+    });
+  }
+
+  if (
+    input.areaSqM !== undefined &&
+    (typeof input.areaSqM !== "number" || !(input.areaSqM > 0))
+  ) {
+    errors.push({ field: "areaSqM", message: "Must be a positive number" });
+  }
+
+  if (input.indoor !== undefined && typeof input.indoor !== "boolean") {
+    errors.push({ field: "indoor", message: "Must be true or false" });
+  }
+
+  if (
+    input.containerType !== undefined &&
+    !CONTAINER_TYPES.includes(input.containerType as ContainerType)
+  ) {
+    errors.push({
+      field: "containerType",
+      message: `Must be one of: ${CONTAINER_TYPES.join(", ")}`,
+    });
+  }
+
+  return errors;
+};
+
+// The user's space with the given id, or null if it is not theirs
+export const findOwnedSpace = async (
+  user: IUser,
+  spaceId: unknown
+): Promise<IGrowingSpace | null> => {
+  if (typeof spaceId !== "string" || !Types.ObjectId.isValid(spaceId)) {
+    return null;
+  }
+  return GrowingSpace.findOne({ _id: spaceId, user: user._id });
+};
+
+// Survey conditions a space stands for when recommendations target it
+export const spaceSurvey = (space: IGrowingSpace): SurveyProfile => ({
+  sunlightHours: space.sunlightHours,
+  availableSpace: space.spaceType,
+});
+
+// Extra prompt lines describing a targeted space
+export const describeSpace = (space?: IGrowingSpace | null): string => {
+  if (!space) {
+    return "";
+  }
+  return `
+    - Growing space: ${space.indoor ? "indoors" : "outdoors"}, about ${space.areaSqM} square metres
+    - Container: ${space.containerType}`;
+};
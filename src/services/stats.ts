@@ -0,0 +1,150 @@
+import { IHarvest, HarvestUnit } from "../models/Harvest";
+import { IPlant } from "../models/Plant";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GRAMS_PER_UNIT: Record<Exclude<HarvestUnit, "count">, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+export interface YieldTotals {
+  // Weighed harvests converted to grams
+  grams: number;
+  // Harvests recorded as a number of items
+  count: number;
+}
+
+export interface PlantStats {
+  plantId: string;
+  plantName: string;
+  isActive: boolean;
+  // The AI's predicted successRate as a number, when it can be read
+  predictedSuccessRate: number | null;
+  harvestCount: number;
+  totalYield: YieldTotals;
+  averageQuality: number | null;
+  daysToFirstHarvest: number | null;
+  steps: {
+    total: number;
+    done: number;
+    skipped: number;
+    // Done steps out of the ones not skipped, 0 to 1
+    completionRate: number | null;
+  };
+}
+
+export interface UserStats {
+  plants: PlantStats[];
+  totals: {
+    plants: number;
+    activePlants: number;
+    harvests: number;
+    totalYield: YieldTotals;
+    averageCompletionRate: number | null;
+  };
+}
+
+const round = (value: number, digits = 2): number =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const average = (values: number[]): number | null =>
+  values.length > 0
+    ? round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : null;
+
+export const parseSuccessRate = (successRate: string): number | null => {
+  const match = successRate.match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+export const addYield = (totals: YieldTotals, harvest: IHarvest): void => {
+  if (harvest.unit === "count") {
+    totals.count += harvest.quantity;
+  } else {
+    totals.grams = round(
+      totals.grams + harvest.quantity * GRAMS_PER_UNIT[harvest.unit]
+    );
+  }
+};
+
+export const computePlantStats = (
+  plant: IPlant,
+  harvests: IHarvest[]
+): PlantStats => {
+  const totalYield: YieldTotals = { grams: 0, count: 0 };
+  harvests.forEach((harvest) => addYield(totalYield, harvest));
+
+  const firstHarvest = harvests.reduce<Date | null>(
+    (first, harvest) =>
+      !first || harvest.harvestedAt < first ? harvest.harvestedAt : first,
+    null
+  );
+
+  // Plants activated before firstActivatedAt was recorded only have their
+  // latest activation
+  const startedAt = plant.firstActivatedAt ?? plant.activatedAt;
+
+  const done = plant.steps.filter((step) => step.status === "done").length;
+  const skipped = plant.steps.filter((step) => step.status === "skipped").length;
+  const counted = plant.steps.length - skipped;
+
+  return {
+    plantId: String(plant._id),
+    plantName: plant.plantName,
+    isActive: plant.isActive,
+    predictedSuccessRate: parseSuccessRate(plant.successRate),
+    harvestCount: harvests.length,
+    totalYield,
+    averageQuality: average(
+      harvests
+        .map((harvest) => harvest.qualityRating)
+        .filter((rating): rating is number => typeof rating === "number")
+    ),
+    daysToFirstHarvest:
+      firstHarvest && startedAt
+        ? Math.max(
+            0,
+            Math.round((firstHarvest.getTime() - startedAt.getTime()) / DAY_MS)
+          )
+        : null,
+    steps: {
+      total: plant.steps.length,
+      done,
+      skipped,
+      completionRate: counted > 0 ? round(done / counted) : null,
+    },
+  };
+};
+
+export const computeUserStats = (
+  plants: IPlant[],
+  harvests: IHarvest[]
+): UserStats => {
+  const plantStats = plants.map((plant) =>
+    computePlantStats(
+      plant,
+      harvests.filter((harvest) => harvest.plant.equals(String(plant._id)))
+    )
+  );
+
+  const totalYield: YieldTotals = { grams: 0, count: 0 };
+  harvests.forEach((harvest) => addYield(totalYield, harvest));
+
+  return {
+    plants: plantStats,
+    totals: {
+      plants: plants.length,
+      activePlants: plants.filter((plant) => plant.isActive).length,
+      harvests: harvests.length,
+      totalYield,
+      averageCompletionRate: average(
+        plantStats
+          .map((stats) => stats.steps.completionRate)
+          .filter((rate): rate is number => rate !== null)
+      ),
+    },
+  };
+};
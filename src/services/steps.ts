@@ -0,0 +1,120 @@
+import { Types } from "mongoose";
+import { IPlant, IPlantStep, StepStatus } from "../models/Plant";
+
+export interface NewStep {
+  title: string;
+  description: string;
+  estimatedTime: string;
+}
+
+export interface StepInsertion {
+  // Id of the step the new ones were placed after, null when at the start
+  insertedAfterStepId: number | null;
+  addedSteps: IPlantStep[];
+}
+
+// Reserve `count` consecutive step ids. Ids are never reused, even after a
+// step is removed, so clients can hold on to them.
+export const allocateStepIds = (plant: IPlant, count: number): number => {
+  const highest = plant.steps.reduce(
+    (max, step) => Math.max(max, step.id),
+    plant.lastStepId || 0
+  );
+  plant.lastStepId = highest + count;
+  return highest + 1;
+};
+
+// Move a step to a new status, keeping isCompleted and completedAt in sync
+export const setStepStatus = (step: IPlantStep, status: StepStatus): void => {
+  if (status === "done" && step.status !== "done") {
+    step.completedAt = new Date();
+  } else if (status !== "done") {
+    step.completedAt = undefined;
+  }
+  step.status = status;
+  step.isCompleted = status === "done";
+};
+
+// Index just after the furthest finished (done or skipped) step, i.e. the
+// current progress point
+const progressIndex = (steps: IPlantStep[]): number => {
+  for (let i = steps.length - 1; i >= 0; i--) {
+    if (steps[i].status === "done" || steps[i].status === "skipped") {
+      return i + 1;
+    }
+  }
+  return 0;
+};
+
+const insertSteps = (
+  plant: IPlant,
+  index: number,
+  newSteps: NewStep[],
+  extra: Pick<IPlantStep, "kind" | "diagnosis">
+): StepInsertion => {
+  const firstId = allocateStepIds(plant, newSteps.length);
+
+  const addedSteps: IPlantStep[] = newSteps.map((step, offset) => ({
+    id: firstId + offset,
+    title: step.title,
+    description: step.description,
+    estimatedTime: step.estimatedTime,
+    isCompleted: false,
+    status: "pending",
+    ...extra,
+  }));
+
+  plant.steps.splice(index, 0, ...addedSteps);
+
+  return {
+    insertedAfterStepId: index > 0 ? plant.steps[index - 1].id : null,
+    addedSteps,
+  };
+};
+
+// Insert treatment steps after the user's current progress without touching
+// the rest of the journey.
+export const insertTreatmentSteps = (
+  plant: IPlant,
+  treatmentSteps: NewStep[],
+  diagnosisId: Types.ObjectId
+): StepInsertion =>
+  insertSteps(plant, progressIndex(plant.steps), treatmentSteps, {
+    kind: "treatment",
+    diagnosis: diagnosisId,
+  });
+
+// Add a user-defined step after `afterStepId`, or at the end when omitted.
+// Returns null when `afterStepId` does not exist on the plant.
+export const addCustomStep = (
+  plant: IPlant,
+  step: NewStep,
+  afterStepId?: number
+): StepInsertion | null => {
+  let index = plant.steps.length;
+  if (afterStepId !== undefined) {
+    const afterIndex = plant.steps.findIndex((s) => s.id === afterStepId);
+    if (afterIndex === -1) {
+      return null;
+    }
+    index = afterIndex + 1;
+  }
+
+  return insertSteps(plant, index, [step], { kind: "custom" });
+};
+
+// Reorder steps to match `order`, which must list every step id exactly once.
+// Returns false (leaving the plant untouched) when it does not.
+export const reorderSteps = (plant: IPlant, order: number[]): boolean => {
+  const byId = new Map(plant.steps.map((step) => [step.id, step]));
+  if (
+    order.length !== plant.steps.length ||
+    new Set(order).size !== order.length ||
+    order.some((id) => !byId.has(id))
+  ) {
+    return false;
+  }
+
+  plant.steps = order.map((id) => byId.get(id) as IPlantStep);
+  return true;
+};
@@ -0,0 +1,40 @@
+import admin from "../../config/firebase";
+import { StorageDriver, StoredObject } from "./types";
+
+// Cloud Storage bucket through firebase-admin; signed URLs are issued by GCS
+export const createBucketDriver = (bucketName?: string): StorageDriver => {
+  const bucket = admin.storage().bucket(bucketName);
+
+  return {
+    name: "bucket",
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+      await bucket.file(key).save(data, { contentType, resumable: false });
+    },
+
+    async get(key: string): Promise<StoredObject | null> {
+      const file = bucket.file(key);
+      const [exists] = await file.exists();
+      if (!exists) {
+        return null;
+      }
+      const [[data], [metadata]] = await Promise.all([
+        file.download(),
+        file.getMetadata(),
+      ]);
+      return { data, contentType: metadata.contentType };
+    },
+
+    async delete(key: string): Promise<void> {
+      await bucket.file(key).delete({ ignoreNotFound: true });
+    },
+
+    async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+      const [url] = await bucket.file(key).getSignedUrl({
+        action: "read",
+        expires: Date.now() + expiresInSeconds * 1000,
+      });
+      return url;
+    },
+  };
+};
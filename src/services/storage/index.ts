@@ -0,0 +1,40 @@
+import { getStorageConfig } from "../../config/storage";
+import { createBucketDriver } from "./bucketDriver";
+import { createLocalDriver } from "./localDriver";
+import { StorageDriver } from "./types";
+
+export * from "./types";
+
+type LocalDriver = ReturnType<typeof createLocalDriver>;
+
+let driver: StorageDriver | null = null;
+
+export const getStorage = (): StorageDriver => {
+  if (!driver) {
+    const config = getStorageConfig();
+    driver =
+      config.driver === "bucket"
+        ? createBucketDriver(config.bucket)
+        : createLocalDriver(
+            config.localDir,
+            config.publicBaseUrl,
+            config.signingSecret
+          );
+    console.log(`Using storage driver "${driver.name}"`);
+  }
+  return driver;
+};
+
+// Swap the active driver, e.g. for an in-process test harness
+export const setStorage = (next: StorageDriver | null): void => {
+  driver = next;
+};
+
+// The local driver's signature check, or null when another driver is active
+export const getLocalDriver = (): LocalDriver | null => {
+  const active = getStorage();
+  return active.name === "local" ? (active as LocalDriver) : null;
+};
+
+export const signedUrlFor = (key: string): Promise<string> =>
+  getStorage().getSignedUrl(key, getStorageConfig().signedUrlTtlSeconds);
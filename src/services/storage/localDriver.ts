@@ -0,0 +1,82 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageDriver, StoredObject } from "./types";
+
+// Files are stored under `rootDir` with a JSON sidecar for the content type.
+// Signed URLs point at the /files route in app.ts, which checks them with
+// verifySignature.
+export const createLocalDriver = (
+  rootDir: string,
+  publicBaseUrl: string,
+  signingSecret: string
+): StorageDriver & {
+  verifySignature(key: string, expires: number, signature: string): boolean;
+} => {
+  if (!signingSecret) {
+    throw new Error("STORAGE_SIGNING_SECRET is not set in environment variables");
+  }
+
+  const resolve = (key: string): string => {
+    const filePath = path.resolve(rootDir, key);
+    // Never let a key escape the storage directory
+    if (!filePath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  const sign = (key: string, expires: number): string =>
+    createHmac("sha256", signingSecret)
+      .update(`${key}:${expires}`)
+      .digest("hex");
+
+  return {
+    name: "local",
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+      await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+    },
+
+    async get(key: string): Promise<StoredObject | null> {
+      const filePath = resolve(key);
+      try {
+        const data = await fs.readFile(filePath);
+        const meta = await fs
+          .readFile(`${filePath}.meta.json`, "utf-8")
+          .then((raw) => JSON.parse(raw))
+          .catch(() => ({}));
+        return { data, contentType: meta.contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      const filePath = resolve(key);
+      await fs.rm(filePath, { force: true });
+      await fs.rm(`${filePath}.meta.json`, { force: true });
+    },
+
+    async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+      return `${publicBaseUrl}/files/${encodedKey}?expires=${expires}&signature=${sign(key, expires)}`;
+    },
+
+    verifySignature(key: string, expires: number, signature: string): boolean {
+      if (!Number.isInteger(expires) || expires < Date.now() / 1000) {
+        return false;
+      }
+      const expected = Buffer.from(sign(key, expires));
+      const given = Buffer.from(signature);
+      return expected.length === given.length && timingSafeEqual(expected, given);
+    },
+  };
+};
@@ -0,0 +1,13 @@
+export interface StoredObject {
+  data: Buffer;
+  contentType?: string;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  // Time-limited URL anyone holding it can read the object from
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
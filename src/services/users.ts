@@ -0,0 +1,154 @@
+import admin from "../config/firebase";
+import User, { IUser, SPACE_TYPES } from "../models/User";
+import { Coordinates, geocode, LocationDetails, reverseGeocode } from "./geo";
+
+export interface SurveyProfile {
+  location?: string;
+  sunlightHours?: number;
+  availableSpace?: string;
+}
+
+// Find the user for a Firebase token, creating them on first login
+export const ensureUser = async (
+  firebaseUser: admin.auth.DecodedIdToken
+): Promise<IUser> => {
+  const user = await User.findOneAndUpdate(
+    { firebaseUid: firebaseUser.uid },
+    { $setOnInsert: { email: firebaseUser.email, plants: [] } },
+    { upsert: true, new: true }
+  );
+  return user as IUser;
+};
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || value === "";
+
+// Survey fields from a request body, falling back to the user's saved
+// profile for anything left out
+export const withSurveyDefaults = (
+  body: Record<string, unknown> | undefined,
+  user: IUser
+): SurveyProfile => ({
+  location: isBlank(body?.location) ? user.location : String(body?.location),
+  sunlightHours: isBlank(body?.sunlightHours)
+    ? user.sunlightHours
+    : Number(body?.sunlightHours),
+  availableSpace: isBlank(body?.availableSpace)
+    ? user.availableSpace
+    : String(body?.availableSpace),
+});
+
+export const missingSurveyFields = (survey: SurveyProfile): string[] =>
+  (["location", "sunlightHours", "availableSpace"] as const).filter((field) =>
+    isBlank(survey[field])
+  );
+
+export interface SurveyFieldError {
+  field: string;
+  message: string;
+}
+
+// Validate the survey fields present in `input`
+export const validateSurvey = (
+  input: Record<string, unknown>
+): SurveyFieldError[] => {
+  const errors: SurveyFieldError[] = [];
+
+  if (
+    input.location !== undefined &&
+    (typeof input.location !== "string" || !input.location.trim())
+  ) {
+    errors.push({ field: "location", message: "Must be a non-empty string" });
+  }
+
+  if (
+    input.sunlightHours !== undefined &&
+    (typeof input.sunlightHours !== "number" ||
+      !Number.isFinite(input.sunlightHours) ||
+      input.sunlightHours < 0 ||
+      input.sunlightHours > 24)
+  ) {
+    errors.push({
+      field: "sunlightHours",
+      message: "Must be a number between 0 and 24",
+    });
+  }
+
+  if (
+    input.availableSpace !== undefined &&
+    !SPACE_TYPES.includes(input.availableSpace as (typeof SPACE_TYPES)[number])
+  ) {
+    errors.push({
+      field: "availableSpace",
+      message: `Must be one of: ${SPACE_TYPES.join(", ")}`,
+    });
+  }
+
+  return errors;
+};
+
+export const serializeProfile = (user: IUser) => ({
+  email: user.email,
+  location: user.location ?? null,
+  locationDetails: user.locationDetails ?? null,
+  sunlightHours: user.sunlightHours ?? null,
+  availableSpace: user.availableSpace ?? null,
+  surveyCompleted: missingSurveyFields(user).length === 0,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+// Set the user's location from text and/or coordinates, keeping the
+// structured details in step. Coordinates win over geocoding the text.
+export const setUserLocation = (
+  user: IUser,
+  location?: string,
+  coordinates?: Coordinates
+): void => {
+  if (coordinates) {
+    const details = reverseGeocode(coordinates);
+    user.locationDetails = details;
+    user.location =
+      location ||
+      [details.city, details.country].filter(Boolean).join(", ") ||
+      `${coordinates.lat}, ${coordinates.lon}`;
+    return;
+  }
+
+  if (
+    location !== undefined &&
+    (location !== user.location || !user.locationDetails)
+  ) {
+    user.location = location;
+    user.locationDetails = geocode(location) ?? undefined;
+  }
+};
+
+// Structured details for a survey location: the user's saved details when it
+// is their profile location, otherwise a fresh lookup
+export const locationDetailsFor = (
+  user: IUser,
+  location: string
+): LocationDetails | null =>
+  location === user.location && user.locationDetails
+    ? user.locationDetails
+    : geocode(location);
+
+// Keep the survey answers of a recommendation request on the profile. Only
+// values PUT /api/me would accept are saved; anything else still serves the
+// request it came with. The caller saves the user.
+export const rememberSurvey = (user: IUser, survey: SurveyProfile): void => {
+  const invalid = new Set(validateSurvey({ ...survey }).map((e) => e.field));
+  const accepted = (field: keyof SurveyProfile): boolean =>
+    survey[field] !== undefined && !invalid.has(field);
+
+  if (accepted("location")) {
+    setUserLocation(user, survey.location);
+  }
+  if (accepted("sunlightHours")) {
+    user.sunlightHours = survey.sunlightHours as number;
+  }
+  if (accepted("availableSpace")) {
+    user.availableSpace = survey.availableSpace as string;
+  }
+};
@@ -0,0 +1,49 @@
+import fs from "fs";
+import bundledForecast from "./fixtures/forecast.json";
+import { DailyForecast, WeatherProvider } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days are relative to the current UTC day so a fixture never goes stale
+interface ForecastFile {
+  days: {
+    dayOffset: number;
+    minTempC: number;
+    maxTempC: number;
+    precipitationMm: number;
+  }[];
+}
+
+const dayKey = (time: number): string =>
+  new Date(time).toISOString().slice(0, 10);
+
+// Deterministic offline provider that returns the same forecast for every
+// location, read from `filePath` or the bundled fixture.
+export const createFileWeatherProvider = (
+  filePath?: string,
+  clock: () => Date = () => new Date()
+): WeatherProvider => ({
+  name: "file",
+  async getForecast(_coordinates, days): Promise<DailyForecast[]> {
+    const forecast: ForecastFile = filePath
+      ? JSON.parse(await fs.promises.readFile(filePath, "utf8"))
+      : bundledForecast;
+
+    const now = clock();
+    const today = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate()
+    );
+
+    return forecast.days
+      .filter((day) => day.dayOffset >= 0 && day.dayOffset < days)
+      .sort((a, b) => a.dayOffset - b.dayOffset)
+      .map(({ dayOffset, minTempC, maxTempC, precipitationMm }) => ({
+        date: dayKey(today + dayOffset * DAY_MS),
+        minTempC,
+        maxTempC,
+        precipitationMm,
+      }));
+  },
+});
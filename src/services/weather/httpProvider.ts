@@ -0,0 +1,47 @@
+import { DailyForecast, WeatherProvider } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+interface OpenMeteoDaily {
+  time: string[];
+  temperature_2m_min: number[];
+  temperature_2m_max: number[];
+  precipitation_sum: (number | null)[];
+}
+
+// Forecasts from an Open-Meteo compatible HTTP API. No key is required for
+// the public endpoint.
+export const createHttpWeatherProvider = (apiUrl: string): WeatherProvider => ({
+  name: "http",
+  async getForecast(coordinates, days): Promise<DailyForecast[]> {
+    const url = new URL(apiUrl);
+    url.searchParams.set("latitude", String(coordinates.lat));
+    url.searchParams.set("longitude", String(coordinates.lon));
+    url.searchParams.set(
+      "daily",
+      "temperature_2m_min,temperature_2m_max,precipitation_sum"
+    );
+    url.searchParams.set("forecast_days", String(days));
+    url.searchParams.set("timezone", "UTC");
+
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Weather API responded with ${response.status}`);
+    }
+
+    const body = (await response.json()) as { daily?: OpenMeteoDaily };
+    const daily = body.daily;
+    if (!daily || !Array.isArray(daily.time)) {
+      throw new Error("Weather API response has no daily forecast");
+    }
+
+    return daily.time.slice(0, days).map((date, index) => ({
+      date,
+      minTempC: daily.temperature_2m_min[index],
+      maxTempC: daily.temperature_2m_max[index],
+      precipitationMm: daily.precipitation_sum[index] ?? 0,
+    }));
+  },
+});
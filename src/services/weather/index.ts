@@ -0,0 +1,26 @@
+import { getWeatherConfig } from "../../config/weather";
+import { createFileWeatherProvider } from "./fileProvider";
+import { createHttpWeatherProvider } from "./httpProvider";
+import { WeatherProvider } from "./types";
+
+export * from "./types";
+export { createFileWeatherProvider } from "./fileProvider";
+
+let provider: WeatherProvider | null = null;
+
+export const getWeatherProvider = (): WeatherProvider => {
+  if (!provider) {
+    const config = getWeatherConfig();
+    provider =
+      config.provider === "file"
+        ? createFileWeatherProvider(config.stubFile)
+        : createHttpWeatherProvider(config.apiUrl);
+    console.log(`Using weather provider "${provider.name}"`);
+  }
+  return provider;
+};
+
+// Swap the active provider, e.g. for an in-process test harness
+export const setWeatherProvider = (next: WeatherProvider | null): void => {
+  provider = next;
+};
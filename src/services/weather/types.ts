@@ -0,0 +1,15 @@
+import { Coordinates } from "../geo";
+
+export interface DailyForecast {
+  // UTC calendar day, YYYY-MM-DD
+  date: string;
+  minTempC: number;
+  maxTempC: number;
+  precipitationMm: number;
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  // Daily forecast starting today, at most `days` entries
+  getForecast(coordinates: Coordinates, days: number): Promise<DailyForecast[]>;
+}
@@ -0,0 +1,155 @@
+import { Types } from "mongoose";
+import { WeatherConfig } from "../config/weather";
+import GrowingSpace from "../models/GrowingSpace";
+import Plant, { IPlant, IPlantStep, IWeatherFlag } from "../models/Plant";
+import User from "../models/User";
+import { computeStepSchedule } from "./schedule";
+import { DailyForecast, WeatherProvider } from "./weather";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Spaces that neither catch rain nor see frost
+const SHELTERED_SPACES = ["windowsill", "indoor", "greenhouse"];
+
+const WATERING_PATTERN = /\b(water|watering|irrigate|irrigation)\b/i;
+
+export type WeatherThresholds = Pick<
+  WeatherConfig,
+  "rainThresholdMm" | "frostThresholdC"
+>;
+
+export interface WeatherSweepResult {
+  usersChecked: number;
+  plantsChecked: number;
+  plantsFlagged: number;
+}
+
+const dayKey = (time: number): string =>
+  new Date(time).toISOString().slice(0, 10);
+
+const startOfUtcDay = (date: Date): number =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+export const isWateringStep = (step: Pick<IPlantStep, "title">): boolean =>
+  WATERING_PATTERN.test(step.title);
+
+export const isSheltered = (plant: IPlant): boolean => {
+  const space = (plant.growingContext?.availableSpace || "").toLowerCase();
+  return SHELTERED_SPACES.some((sheltered) => space.includes(sheltered));
+};
+
+// Work out which of the plant's care tasks the forecast changes. Watering
+// steps due within a day of forecast rain can be skipped; a frost
+// anywhere in the forecast asks for the whole plant to be protected.
+// Overdue steps are treated as due today.
+export const computeWeatherFlags = (
+  plant: IPlant,
+  forecast: DailyForecast[],
+  thresholds: WeatherThresholds,
+  now: Date = new Date()
+): IWeatherFlag[] => {
+  if (forecast.length === 0 || isSheltered(plant)) {
+    return [];
+  }
+
+  const flags: IWeatherFlag[] = [];
+  const today = startOfUtcDay(now);
+  const forecastByDay = new Map(forecast.map((day) => [day.date, day]));
+  const wateringSteps = new Set(
+    plant.steps.filter(isWateringStep).map((step) => step.id)
+  );
+
+  computeStepSchedule(plant)
+    .filter((task) => wateringSteps.has(task.stepId))
+    .forEach((task) => {
+      const dueDay = Math.max(startOfUtcDay(task.dueAt), today);
+      const rainyDay = [dueDay - DAY_MS, dueDay, dueDay + DAY_MS]
+        .map((time) => forecastByDay.get(dayKey(time)))
+        .find(
+          (day) => day && day.precipitationMm >= thresholds.rainThresholdMm
+        );
+
+      if (rainyDay) {
+        flags.push({
+          action: "skip-watering",
+          stepId: task.stepId,
+          date: rainyDay.date,
+          reason: `${rainyDay.precipitationMm} mm of rain expected on ${rainyDay.date}; skip watering unless the soil is dry.`,
+        });
+      }
+    });
+
+  const frostDay = forecast.find(
+    (day) => day.minTempC <= thresholds.frostThresholdC
+  );
+  if (frostDay) {
+    flags.push({
+      action: "protect-from-frost",
+      date: frostDay.date,
+      reason: `Frost risk on ${frostDay.date} (low of ${frostDay.minTempC}°C); cover the plant or move it under shelter the evening before.`,
+    });
+  }
+
+  return flags;
+};
+
+// Refresh the weather flags on every active plant whose owner has a
+// geocoded location. Forecasts are shared between users at the same spot,
+// and a failed forecast only skips the users it was for.
+export const runWeatherSweep = async (
+  provider: WeatherProvider,
+  config: WeatherThresholds & Pick<WeatherConfig, "forecastDays">,
+  now: Date = new Date()
+): Promise<WeatherSweepResult> => {
+  const users = await User.find({
+    "locationDetails.coordinates.lat": { $exists: true },
+  });
+  const forecasts = new Map<string, Promise<DailyForecast[]>>();
+  const result: WeatherSweepResult = {
+    usersChecked: users.length,
+    plantsChecked: 0,
+    plantsFlagged: 0,
+  };
+
+  for (const user of users) {
+    const coordinates = user.locationDetails!.coordinates;
+    const key = `${coordinates.lat.toFixed(2)},${coordinates.lon.toFixed(2)}`;
+    if (!forecasts.has(key)) {
+      forecasts.set(key, provider.getForecast(coordinates, config.forecastDays));
+    }
+
+    let forecast: DailyForecast[];
+    try {
+      forecast = await forecasts.get(key)!;
+    } catch (error) {
+      console.error(`Weather forecast for ${key} failed:`, error);
+      continue;
+    }
+
+    const plants: IPlant[] = await Plant.find({
+      _id: { $in: user.plants as Types.ObjectId[] },
+      isActive: true,
+    });
+
+    // Plants in an indoor growing space are sheltered whatever the survey said
+    const indoorSpaces = (
+      await GrowingSpace.find({ user: user._id, indoor: true }).distinct("_id")
+    ).map(String);
+
+    for (const plant of plants) {
+      const flags = indoorSpaces.includes(String(plant.space))
+        ? []
+        : computeWeatherFlags(plant, forecast, config, now);
+      await Plant.updateOne(
+        { _id: plant._id },
+        { $set: { weatherFlags: flags, weatherCheckedAt: now } }
+      );
+      result.plantsChecked++;
+      if (flags.length > 0) {
+        result.plantsFlagged++;
+      }
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import { HARVEST_UNITS } from "../models/Harvest";
+import { STEP_STATUSES } from "../models/Plant";
+import { MAX_CHAT_MESSAGE_LENGTH } from "../services/chat";
+
+// Request schemas for the routes in plantRoutes.ts, applied by the
+// `validate` middleware. Query strings and multipart form fields only carry
+// strings, so numbers and flags sent as strings are converted first; other
+// types are not coerced.
+
+const objectId = z
+  .string()
+  .regex(/^[0-9a-f]{24}$/i, "Must be a 24-character hex string");
+
+// Numbers sent as strings are converted; anything else that is not a
+// number, e.g. `true` or `[]`, is rejected
+const numeric = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim() !== "" ? Number(value) : value,
+    schema
+  );
+
+const stepId = numeric(
+  z
+    .number({ invalid_type_error: "Must be a step ID" })
+    .int("Must be a step ID")
+    .positive("Must be a step ID")
+);
+
+const text = z.string().trim().min(1, "Must be a non-empty string");
+
+// Empty form fields and nulls count as left out
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    schema.optional()
+  );
+
+const flag = z.preprocess(
+  (value) => (value === "true" ? true : value === "false" ? false : value),
+  z.boolean({ invalid_type_error: "Must be true or false" })
+);
+
+// Page sizes above the maximum are capped rather than rejected
+const pageSize = (defaultSize: number, maxSize: number) =>
+  numeric(z.number().int().positive().default(defaultSize)).transform(
+    (size) => Math.min(size, maxSize)
+  );
+
+// A missing body is treated as an empty one
+const body = <T extends z.ZodRawShape>(shape: T) =>
+  z.preprocess((value) => value ?? {}, z.object(shape));
+
+const plantParams = z.object({ plantId: objectId });
+
+// Survey fields default to the user's saved profile when left out
+const surveyFields = {
+  location: optional(text),
+  sunlightHours: optional(
+    numeric(
+      z
+        .number({ invalid_type_error: "Must be a number between 0 and 24" })
+        .min(0, "Must be a number between 0 and 24")
+        .max(24, "Must be a number between 0 and 24")
+    )
+  ),
+  availableSpace: optional(text),
+  spaceId: optional(objectId),
+};
+
+const measurement = optional(numeric(z.number().nonnegative()));
+const measurementFields = {
+  heightCm: measurement,
+  leafCount: optional(numeric(z.number().int().nonnegative())),
+  yieldWeightGrams: measurement,
+};
+
+export const plantRequests = {
+  // Recommendations
+  recommendations: {
+    body: body(surveyFields),
+  },
+  recommendationStream: {
+    query: z.object(surveyFields),
+  },
+  customPlant: {
+    body: body({ plantName: text, ...surveyFields }),
+  },
+
+  // Plant management
+  plantDetail: {
+    params: z.object({ id: objectId }),
+  },
+  toggleActive: {
+    params: z.object({ id: objectId }),
+    query: z.object({ strict: optional(flag) }),
+    body: body({ spaceId: optional(objectId), strict: optional(flag) }),
+  },
+  completeStep: {
+    params: plantParams.extend({ stepId }),
+  },
+  assignSpace: {
+    params: plantParams,
+    body: body({ spaceId: objectId.nullable() }),
+  },
+
+  // Diagnosis
+  diagnose: {
+    params: plantParams,
+    body: body({ imageBase64: optional(z.string()) }),
+  },
+  diagnoses: {
+    params: plantParams,
+    query: z.object({
+      page: numeric(z.number().int().positive().default(1)),
+      limit: pageSize(20, 100),
+    }),
+  },
+
+  // Photos
+  uploadPhoto: {
+    params: plantParams,
+    body: body({
+      imageBase64: optional(z.string()),
+      setAsCover: optional(flag),
+    }),
+  },
+  listPhotos: {
+    params: plantParams,
+  },
+  deletePhoto: {
+    params: plantParams.extend({ photoId: objectId }),
+  },
+  setCover: {
+    params: plantParams,
+    body: body({ photoId: objectId }),
+  },
+
+  // Progress journal. Measurements may also be sent nested under
+  // `measurements`; top-level values win.
+  createJournalEntry: {
+    params: plantParams,
+    body: body({
+      note: text,
+      ...measurementFields,
+      measurements: optional(z.object(measurementFields)),
+      stepId: optional(stepId),
+      imageBase64: optional(z.string()),
+    }),
+  },
+  journalEntries: {
+    params: plantParams,
+    query: z.object({
+      limit: pageSize(20, 100),
+      cursor: optional(z.string()),
+    }),
+  },
+  deleteJournalEntry: {
+    params: plantParams.extend({ entryId: objectId }),
+  },
+
+  // Harvests
+  createHarvest: {
+    params: plantParams,
+    body: body({
+      // Defaults to now
+      harvestedAt: optional(z.coerce.date()),
+      quantity: z.number().positive(),
+      unit: z.enum(HARVEST_UNITS),
+      qualityRating: optional(z.number().int().min(1).max(5)),
+      note: optional(z.string().trim()),
+    }),
+  },
+  harvests: {
+    params: plantParams,
+  },
+  deleteHarvest: {
+    params: plantParams.extend({ harvestId: objectId }),
+  },
+
+  // Plant assistant
+  sendChatMessage: {
+    params: plantParams,
+    body: body({
+      message: text.max(
+        MAX_CHAT_MESSAGE_LENGTH,
+        `Must be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`
+      ),
+    }),
+  },
+  chatThread: {
+    params: plantParams,
+    query: z.object({ limit: pageSize(50, 200) }),
+  },
+  resolveChatProposal: {
+    params: plantParams.extend({ proposalId: objectId }),
+    // Users either confirm a proposal or dismiss it
+    body: body({ status: z.enum(["applied", "dismissed"]) }),
+  },
+
+  // Steps
+  addStep: {
+    params: plantParams,
+    body: body({
+      title: text,
+      description: text,
+      estimatedTime: text,
+      // Where to add the step; the end of the list when omitted
+      afterStepId: optional(stepId),
+    }),
+  },
+  reorderSteps: {
+    params: plantParams,
+    body: body({ order: z.array(z.number().int()) }),
+  },
+  updateStep: {
+    params: plantParams.extend({ stepId }),
+    body: body({
+      title: text.optional(),
+      description: text.optional(),
+      estimatedTime: text.optional(),
+      status: z.enum(STEP_STATUSES).optional(),
+    }),
+  },
+  deleteStep: {
+    params: plantParams.extend({ stepId }),
+  },
+};
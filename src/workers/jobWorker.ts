@@ -0,0 +1,74 @@
+import crypto from "crypto";
+import os from "os";
+import { getJobConfig } from "../config/jobs";
+import { JobType } from "../models/Job";
+import {
+  claimNextJob,
+  JobHandler,
+  recoverStuckJobs,
+  runJob,
+} from "../services/jobs";
+import { runRecommendationJob } from "../services/recommendations";
+
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+
+const handlers: Record<JobType, JobHandler> = {
+  recommendations: runRecommendationJob,
+};
+
+// Run queued background jobs one at a time. Jobs left running by a previous
+// process are recovered at startup and then once a minute. Returns a
+// function that stops the worker.
+export const startJobWorker = (): (() => void) => {
+  const config = getJobConfig();
+
+  if (!config.workerEnabled) {
+    console.log("Job worker disabled");
+    return () => undefined;
+  }
+
+  const workerId = `${os.hostname()}:${process.pid}:${crypto
+    .randomBytes(4)
+    .toString("hex")}`;
+  let running = false;
+
+  const recover = async () => {
+    try {
+      const recovered = await recoverStuckJobs(config.lockTimeoutMinutes);
+      if (recovered > 0) {
+        console.log(`Recovered ${recovered} stuck job(s)`);
+      }
+    } catch (error) {
+      console.error("Job recovery failed:", error);
+    }
+  };
+
+  // Drain every due job, then wait for the next poll
+  const poll = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      let job = await claimNextJob(workerId);
+      while (job) {
+        await runJob(job, handlers[job.type], config);
+        job = await claimNextJob(workerId);
+      }
+    } catch (error) {
+      console.error("Job worker poll failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  recover();
+  const pollTimer = setInterval(poll, config.pollIntervalMs);
+  const recoveryTimer = setInterval(recover, RECOVERY_INTERVAL_MS);
+  console.log(`Job worker ${workerId} polling every ${config.pollIntervalMs}ms`);
+
+  return () => {
+    clearInterval(pollTimer);
+    clearInterval(recoveryTimer);
+  };
+};
@@ -0,0 +1,41 @@
+import { getNotificationConfig } from "../config/notifications";
+import { getNotificationSender } from "../services/notifications";
+import { runReminderSweep } from "../services/reminders";
+
+// Periodically push care reminders. Returns a function that stops the worker.
+export const startReminderWorker = (): (() => void) => {
+  const config = getNotificationConfig();
+
+  if (!config.remindersEnabled) {
+    console.log("Reminder worker disabled");
+    return () => undefined;
+  }
+
+  let running = false;
+
+  const sweep = async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await runReminderSweep(
+        getNotificationSender(),
+        config.followUpDays
+      );
+      console.log(
+        `Reminder sweep: ${result.sent} sent to ${result.usersChecked} users, ${result.failed} failed`
+      );
+    } catch (error) {
+      console.error("Reminder sweep failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(sweep, config.intervalMinutes * 60 * 1000);
+  console.log(`Reminder worker running every ${config.intervalMinutes} minutes`);
+
+  return () => clearInterval(timer);
+};
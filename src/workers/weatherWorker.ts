@@ -0,0 +1,42 @@
+import { getWeatherConfig } from "../config/weather";
+import { getWeatherProvider } from "../services/weather";
+import { runWeatherSweep } from "../services/weatherAdjustments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Check the forecast once at startup and then daily, flagging care tasks
+// the weather changes. Returns a function that stops the worker.
+export const startWeatherWorker = (): (() => void) => {
+  const config = getWeatherConfig();
+
+  if (!config.adjustmentsEnabled) {
+    console.log("Weather worker disabled");
+    return () => undefined;
+  }
+
+  let running = false;
+
+  const sweep = async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await runWeatherSweep(getWeatherProvider(), config);
+      console.log(
+        `Weather sweep: ${result.plantsFlagged} of ${result.plantsChecked} plants flagged for ${result.usersChecked} users`
+      );
+    } catch (error) {
+      console.error("Weather sweep failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  sweep();
+  const timer = setInterval(sweep, DAY_MS);
+  console.log("Weather worker running daily");
+
+  return () => clearInterval(timer);
+};